@@ -1,12 +1,46 @@
 import BitOpsValueReader from "./src/value-readers/BitOpsValueReader";
 import PerformanceValueReader from "./src/value-readers/PerformanceValueReader";
 import DataViewValueReader from "./src/value-readers/DataViewValueReader";
+import Crc32Checksum from "./src/checksums/Crc32Checksum";
+import Crc32cChecksum from "./src/checksums/Crc32cChecksum";
+import Adler32Checksum from "./src/checksums/Adler32Checksum";
+import IncrementalHashChecksum from "./src/checksums/IncrementalHashChecksum";
 
 export * from "./src/buffer";
+export * from "./src/errors";
+export type { StringEncoding, StringEncodingOptions } from "./src/encoding";
 export * from "./src/shared";
 export { BitOpsValueReader };
 export { PerformanceValueReader };
 export { DataViewValueReader };
+export { Crc32Checksum };
+export { Crc32cChecksum };
+export { Adler32Checksum };
+export { IncrementalHashChecksum };
+export type { IncrementalHash } from "./src/checksums/IncrementalHashChecksum";
 
-export { StreamReader } from "./src/reader";
-export { StreamWriter } from "./src/writer";
+export {
+  StreamReader,
+  type LimitedReader,
+  type MarkOptions,
+  type ReaderMark,
+  type ReadProgress,
+  type ReadUntilEofOptions,
+  type ReadUntilOptions,
+  type StreamReaderOptions,
+} from "./src/reader";
+export { BufferReader, type BufferReaderOptions } from "./src/buffer-reader";
+export {
+  SeekableReader,
+  type SeekableReaderOptions,
+} from "./src/seekable-reader";
+export {
+  StreamWriter,
+  type StreamWriterOptions,
+  type WriteProgress,
+} from "./src/writer";
+export { BitReader } from "./src/bit-reader";
+export { BitWriter } from "./src/bit-writer";
+export { HashingReader } from "./src/hashing-reader";
+export { HashingWriter } from "./src/hashing-writer";
+export * from "./src/codec";
@@ -0,0 +1,119 @@
+// perf-chunks.test.ts
+import { performance } from "perf_hooks";
+import { StreamReader } from "./index";
+
+const PAYLOAD_SIZE = 4 * 1024 * 1024;
+const CHUNK_SIZES = [1024, 4096];
+const RECORD_SIZE = 256 * 1024;
+
+// —————————————————————————————————————————————
+// Helpers
+// —————————————————————————————————————————————
+
+function createChunks(chunkSize: number): Uint8Array[] {
+  const chunks: Uint8Array[] = [];
+  for (let offset = 0; offset < PAYLOAD_SIZE; offset += chunkSize) {
+    chunks.push(new Uint8Array(chunkSize).fill(offset & 0xff));
+  }
+  return chunks;
+}
+
+function createStream(chunks: Uint8Array[]): ReadableStream<Uint8Array> {
+  let index = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (index < chunks.length) {
+        controller.enqueue(chunks[index++]);
+      } else {
+        controller.close();
+      }
+    },
+  });
+}
+
+// The previous buffering strategy: every incoming chunk is appended by
+// allocating a new buffer and copying everything that is still unconsumed.
+class ConcatenatingReader {
+  private readonly reader: ReadableStreamDefaultReader<Uint8Array>;
+  private buffer = new Uint8Array(0);
+  private bufferOffset = 0;
+
+  constructor(stream: ReadableStream<Uint8Array>) {
+    this.reader = stream.getReader();
+  }
+
+  async read(len: number): Promise<Uint8Array> {
+    while (this.buffer.length - this.bufferOffset < len) {
+      const { done, value } = await this.reader.read();
+      if (done) {
+        throw new Error("Unexpected end of stream");
+      }
+
+      const newBuffer = new Uint8Array(this.buffer.length + value.length);
+      newBuffer.set(this.buffer, 0);
+      newBuffer.set(value, this.buffer.length);
+      this.buffer = newBuffer;
+    }
+
+    const value = this.buffer.slice(this.bufferOffset, this.bufferOffset + len);
+    this.bufferOffset += len;
+
+    if (this.bufferOffset > this.buffer.byteLength >>> 1) {
+      this.buffer = this.buffer.slice(this.bufferOffset);
+      this.bufferOffset = 0;
+    }
+
+    return value;
+  }
+}
+
+// —————————————————————————————————————————————
+// Measurement Runners
+// —————————————————————————————————————————————
+
+async function measure(
+  label: string,
+  reader: { read(len: number): Promise<Uint8Array> },
+  len: number,
+) {
+  const t0 = performance.now();
+  let sum = 0;
+  for (let i = 0; i < PAYLOAD_SIZE / len; i++) {
+    const value = await reader.read(len);
+    sum += value[0];
+  }
+  const t1 = performance.now();
+  console.log(`${label.padEnd(40)} : ${(t1 - t0).toFixed(2)} ms (sum=${sum})`);
+}
+
+// —————————————————————————————————————————————
+// Run!
+console.log(`PAYLOAD_SIZE = ${PAYLOAD_SIZE}`);
+console.log(`RECORD_SIZE  = ${RECORD_SIZE}`);
+console.log("");
+
+for (const chunkSize of CHUNK_SIZES) {
+  const chunks = createChunks(chunkSize);
+
+  await measure(
+    `Concatenating ${chunkSize} B chunks, whole`,
+    new ConcatenatingReader(createStream(chunks)),
+    PAYLOAD_SIZE,
+  );
+  await measure(
+    `ChunkQueue ${chunkSize} B chunks, whole`,
+    new StreamReader(createStream(chunks)),
+    PAYLOAD_SIZE,
+  );
+  await measure(
+    `Concatenating ${chunkSize} B chunks, records`,
+    new ConcatenatingReader(createStream(chunks)),
+    RECORD_SIZE,
+  );
+  await measure(
+    `ChunkQueue ${chunkSize} B chunks, records`,
+    new StreamReader(createStream(chunks)),
+    RECORD_SIZE,
+  );
+  console.log("");
+}
@@ -0,0 +1,53 @@
+import { AbortError, type ErrorContext } from "./errors";
+
+export function throwIfAborted(
+  signal: AbortSignal | undefined,
+  context: ErrorContext,
+): void {
+  if (signal?.aborted) {
+    throw new AbortError(signal.reason, context);
+  }
+}
+
+/**
+ * Settles with `promise`, unless `signal` aborts first. The promise itself
+ * keeps running either way.
+ */
+export function raceAbort<T>(
+  promise: Promise<T>,
+  signal: AbortSignal | undefined,
+  context: ErrorContext,
+): Promise<T> {
+  if (signal == null) {
+    return promise;
+  }
+
+  throwIfAborted(signal, context);
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new AbortError(signal.reason, context));
+    signal.addEventListener("abort", onAbort, { once: true });
+
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(error);
+      },
+    );
+  });
+}
+
+export function combineSignals(
+  a: AbortSignal | undefined,
+  b: AbortSignal | undefined,
+): AbortSignal | undefined {
+  if (a == null || a === b) {
+    return b;
+  }
+
+  return b == null ? a : AbortSignal.any([a, b]);
+}
@@ -0,0 +1,93 @@
+import type { StreamReader } from "./reader";
+import { BitOrder } from "./shared";
+
+const MAX_NUMBER_BITS = 53;
+const MAX_BIGINT_BITS = 64;
+
+/**
+ * Reads arbitrary bit widths from a StreamReader.
+ *
+ * Bytes are pulled from the underlying reader one at a time, so after
+ * `alignToByte()` its position is exactly past the last byte touched.
+ */
+export class BitReader {
+  private currentByte: number = 0;
+  private bitCount: number = 0; // Unread bits left in currentByte
+
+  public bitsRead: number = 0;
+
+  constructor(
+    public readonly reader: StreamReader,
+    public readonly bitOrder: BitOrder = BitOrder.MsbFirst,
+  ) {}
+
+  async readBits(count: number): Promise<number> {
+    if (!Number.isInteger(count) || count < 0 || count > MAX_NUMBER_BITS) {
+      throw new RangeError(
+        `Bit count must be an integer between 0 and ${MAX_NUMBER_BITS}`,
+      );
+    }
+
+    let result = 0;
+    let produced = 0;
+
+    while (produced < count) {
+      if (this.bitCount === 0) {
+        this.currentByte = await this.reader.readUint8();
+        this.bitCount = 8;
+      }
+
+      const take = Math.min(this.bitCount, count - produced);
+      const mask = (1 << take) - 1;
+
+      if (this.bitOrder === BitOrder.MsbFirst) {
+        const bits = (this.currentByte >>> (this.bitCount - take)) & mask;
+        result = result * 2 ** take + bits;
+      } else {
+        const bits = (this.currentByte >>> (8 - this.bitCount)) & mask;
+        result += bits * 2 ** produced;
+      }
+
+      this.bitCount -= take;
+      produced += take;
+    }
+
+    this.bitsRead += count;
+    return result;
+  }
+
+  async readBitsBigInt(count: number): Promise<bigint> {
+    if (!Number.isInteger(count) || count < 0 || count > MAX_BIGINT_BITS) {
+      throw new RangeError(
+        `Bit count must be an integer between 0 and ${MAX_BIGINT_BITS}`,
+      );
+    }
+
+    if (count <= 32) {
+      return BigInt(await this.readBits(count));
+    }
+
+    // Split into a 32-bit low part and the remaining high part, in stream order
+    if (this.bitOrder === BitOrder.MsbFirst) {
+      const hi = await this.readBits(count - 32);
+      const lo = await this.readBits(32);
+      return (BigInt(hi) << 32n) | BigInt(lo);
+    }
+
+    const lo = await this.readBits(32);
+    const hi = await this.readBits(count - 32);
+    return (BigInt(hi) << 32n) | BigInt(lo);
+  }
+
+  async readBool(): Promise<boolean> {
+    return (await this.readBits(1)) === 1;
+  }
+
+  /**
+   * Discards the unread bits of the current byte.
+   */
+  alignToByte(): void {
+    this.bitsRead += this.bitCount;
+    this.bitCount = 0;
+  }
+}
@@ -0,0 +1,120 @@
+import type { StreamWriter } from "./writer";
+import { BitOrder } from "./shared";
+import { RangeOverflowError } from "./errors";
+
+const MAX_NUMBER_BITS = 53;
+const MAX_BIGINT_BITS = 64;
+
+/**
+ * Writes arbitrary bit widths to a StreamWriter.
+ *
+ * Completed bytes are written as soon as they fill up; call `flush()` to
+ * zero-pad and write the final partial byte.
+ */
+export class BitWriter {
+  private currentByte: number = 0;
+  private bitCount: number = 0; // Bits already placed in currentByte
+
+  public bitsWritten: number = 0;
+
+  constructor(
+    public readonly writer: StreamWriter,
+    public readonly bitOrder: BitOrder = BitOrder.MsbFirst,
+  ) {}
+
+  async writeBits(value: number | bigint, count: number): Promise<void> {
+    if (typeof value === "bigint") {
+      return this.writeBitsBigInt(value, count);
+    }
+
+    if (!Number.isInteger(count) || count < 0 || count > MAX_NUMBER_BITS) {
+      throw new RangeError(
+        `Bit count must be an integer between 0 and ${MAX_NUMBER_BITS}`,
+      );
+    }
+
+    if (!Number.isInteger(value) || value < 0 || value >= 2 ** count) {
+      throw new RangeOverflowError(`Value does not fit in ${count} bits`);
+    }
+
+    const bytes: number[] = [];
+    let remaining = count;
+
+    while (remaining > 0) {
+      const space = 8 - this.bitCount;
+      const take = Math.min(space, remaining);
+      const mask = (1 << take) - 1;
+
+      if (this.bitOrder === BitOrder.MsbFirst) {
+        const bits = Math.floor(value / 2 ** (remaining - take)) & mask;
+        this.currentByte |= bits << (space - take);
+      } else {
+        const bits = Math.floor(value / 2 ** (count - remaining)) & mask;
+        this.currentByte |= bits << this.bitCount;
+      }
+
+      this.bitCount += take;
+      remaining -= take;
+
+      if (this.bitCount === 8) {
+        bytes.push(this.currentByte);
+        this.currentByte = 0;
+        this.bitCount = 0;
+      }
+    }
+
+    if (bytes.length > 0) {
+      await this.writer.write(new Uint8Array(bytes));
+    }
+
+    this.bitsWritten += count;
+  }
+
+  private async writeBitsBigInt(value: bigint, count: number): Promise<void> {
+    if (!Number.isInteger(count) || count < 0 || count > MAX_BIGINT_BITS) {
+      throw new RangeError(
+        `Bit count must be an integer between 0 and ${MAX_BIGINT_BITS}`,
+      );
+    }
+
+    if (value < 0n || value >= 1n << BigInt(count)) {
+      throw new RangeOverflowError(`Value does not fit in ${count} bits`);
+    }
+
+    if (count <= 32) {
+      return this.writeBits(Number(value), count);
+    }
+
+    // Split into a 32-bit low part and the remaining high part, in stream order
+    const hi = Number(value >> 32n);
+    const lo = Number(value & 0xffffffffn);
+
+    if (this.bitOrder === BitOrder.MsbFirst) {
+      await this.writeBits(hi, count - 32);
+      await this.writeBits(lo, 32);
+    } else {
+      await this.writeBits(lo, 32);
+      await this.writeBits(hi, count - 32);
+    }
+  }
+
+  async writeBool(value: boolean): Promise<void> {
+    return this.writeBits(value ? 1 : 0, 1);
+  }
+
+  /**
+   * Writes the current partial byte, padding the unused bits with zeros.
+   */
+  async flush(): Promise<void> {
+    if (this.bitCount === 0) {
+      return;
+    }
+
+    const byte = this.currentByte;
+    this.bitsWritten += 8 - this.bitCount;
+    this.currentByte = 0;
+    this.bitCount = 0;
+
+    await this.writer.write(new Uint8Array([byte]));
+  }
+}
@@ -0,0 +1,583 @@
+import { uint8ArrayFromBufferSource } from "./buffer";
+import { decodeString, type StringEncodingOptions } from "./encoding";
+import { HOST_ENDIAN, resolveEndian, swapByteOrder } from "./endian";
+import { assertByteLength, decodeIntN, decodeUintN } from "./int-n";
+import {
+  BufferLimitError,
+  RangeOverflowError,
+  UnexpectedEofError,
+} from "./errors";
+import {
+  type BinaryReader,
+  Endian,
+  type IntNValue,
+  type ValueReader,
+} from "./shared";
+import DefaultValueReader from "./value-readers/DefaultValueReader";
+import { decodeLeb128, MAX_VARINT_BYTES } from "./varint";
+
+const NUL = 0x00;
+const LF = 0x0a;
+const CR = 0x0d;
+
+export interface BufferReaderOptions {
+  /** Default byte order for typed reads; defaults to `Endian.Big` */
+  endian?: Endian;
+}
+
+// Position shared by a reader and the views created from it
+interface BufferReaderState {
+  bytesRead: number;
+}
+
+/**
+ * A synchronous reader over bytes that are already in memory. It has the
+ * same methods as `StreamReader` but returns values directly, avoiding a
+ * promise per field.
+ *
+ * `read()` and `peek()` return views of the buffer rather than copies.
+ */
+export class BufferReader implements BinaryReader {
+  private readonly bytes: Uint8Array;
+  private readonly state: BufferReaderState;
+  private valueReader: ValueReader;
+  private end: number; // Position at which this reader reports end of data
+
+  /** Byte order used by typed reads that are not given one */
+  public readonly endian: Endian.Little | Endian.Big;
+
+  /**
+   * Passing another `BufferReader` creates a view that shares its buffer,
+   * position and section limit.
+   */
+  constructor(
+    source: BufferSource | BufferReader,
+    valueReader?: ValueReader,
+    options: BufferReaderOptions = {},
+  ) {
+    if (source instanceof BufferReader) {
+      this.bytes = source.bytes;
+      this.state = source.state;
+      this.valueReader = valueReader ?? source.valueReader;
+      this.end = source.end;
+      this.endian = resolveEndian(options.endian ?? source.endian);
+    } else {
+      this.bytes = uint8ArrayFromBufferSource(source);
+      this.state = { bytesRead: 0 };
+      this.valueReader = valueReader ?? new DefaultValueReader();
+      this.end = this.bytes.length;
+      this.endian = resolveEndian(options.endian ?? Endian.Big);
+    }
+  }
+
+  get bytesRead(): number {
+    return this.state.bytesRead;
+  }
+
+  set bytesRead(value: number) {
+    this.state.bytesRead = value;
+  }
+
+  /** Bytes left before the end of the buffer or section */
+  get remaining(): number {
+    return Math.max(0, this.end - this.bytesRead);
+  }
+
+  // Returns the position of the next `count` bytes, which must be available
+  private require(count: number): number {
+    if (!Number.isSafeInteger(count) || count < 0) {
+      throw new RangeError("Length must be a non-negative safe integer");
+    }
+
+    if (count > this.remaining) {
+      throw new UnexpectedEofError({
+        offset: this.bytesRead,
+        requested: count,
+        available: this.remaining,
+      });
+    }
+
+    return this.bytesRead;
+  }
+
+  // Returns the position of the next `count` bytes and moves past them
+  private advance(count: number): number {
+    const position = this.require(count);
+    this.bytesRead += count;
+
+    return position;
+  }
+
+  private view(count: number): Uint8Array {
+    const position = this.require(count);
+    return this.bytes.subarray(position, position + count);
+  }
+
+  read(len: number | bigint): Uint8Array {
+    const value = this.view(Number(len));
+    this.bytesRead += value.length;
+
+    return value;
+  }
+
+  peek(len: number | bigint): Uint8Array {
+    return this.view(Number(len));
+  }
+
+  skip(len: number | bigint): void {
+    this.read(len);
+  }
+
+  peekUint8(): number {
+    return this.valueReader.readUint8(this.bytes, this.require(1));
+  }
+
+  peekInt8(): number {
+    return this.valueReader.readInt8(this.bytes, this.require(1));
+  }
+
+  peekUint16(endian: Endian = this.endian): number {
+    return this.valueReader.readUint16(
+      this.bytes,
+      this.require(2),
+      resolveEndian(endian),
+    );
+  }
+
+  peekInt16(endian: Endian = this.endian): number {
+    return this.valueReader.readInt16(
+      this.bytes,
+      this.require(2),
+      resolveEndian(endian),
+    );
+  }
+
+  peekUint32(endian: Endian = this.endian): number {
+    return this.valueReader.readUint32(
+      this.bytes,
+      this.require(4),
+      resolveEndian(endian),
+    );
+  }
+
+  peekInt32(endian: Endian = this.endian): number {
+    return this.valueReader.readInt32(
+      this.bytes,
+      this.require(4),
+      resolveEndian(endian),
+    );
+  }
+
+  peekUint64(endian: Endian = this.endian): bigint {
+    return this.valueReader.readUint64(
+      this.bytes,
+      this.require(8),
+      resolveEndian(endian),
+    );
+  }
+
+  peekInt64(endian: Endian = this.endian): bigint {
+    return this.valueReader.readInt64(
+      this.bytes,
+      this.require(8),
+      resolveEndian(endian),
+    );
+  }
+
+  readString(
+    len: number | bigint,
+    options: StringEncodingOptions = {},
+  ): string {
+    const offset = this.bytesRead;
+    return decodeString(this.read(len), options, offset);
+  }
+
+  /**
+   * Returns the position of `delimiter` relative to the current position,
+   * or -1 if the readable data ends first. `slack` extra bytes are searched
+   * past `maxLength` for the caller to check itself.
+   */
+  private findDelimiter(
+    delimiter: Uint8Array,
+    maxLength: number,
+    slack: number = 0,
+  ): number {
+    const start = this.bytesRead;
+    const last = this.end - delimiter.length;
+
+    let index = -1;
+    let i = this.bytes.indexOf(delimiter[0], start);
+    while (i !== -1 && i <= last) {
+      if (delimiter.every((byte, j) => this.bytes[i + j] === byte)) {
+        index = i - start;
+        break;
+      }
+
+      i = this.bytes.indexOf(delimiter[0], i + 1);
+    }
+
+    const available = this.remaining;
+    const exceeded =
+      index === -1
+        ? available >= maxLength + slack + delimiter.length
+        : index > maxLength + slack;
+    if (exceeded) {
+      throw new RangeOverflowError(
+        `Delimiter not found within ${maxLength} bytes`,
+        { offset: start, available },
+      );
+    }
+
+    return index;
+  }
+
+  readUntil(
+    delimiter: number | Uint8Array,
+    options: { maxLength?: number; includeDelimiter?: boolean } = {},
+  ): Uint8Array {
+    const { maxLength = Infinity, includeDelimiter = false } = options;
+    const needle =
+      typeof delimiter === "number" ? Uint8Array.of(delimiter) : delimiter;
+
+    if (needle.length === 0) {
+      throw new RangeError("Delimiter must not be empty");
+    }
+
+    const index = this.findDelimiter(needle, maxLength);
+    if (index === -1) {
+      throw new UnexpectedEofError({
+        offset: this.bytesRead,
+        available: this.remaining,
+      });
+    }
+
+    const value = this.read(includeDelimiter ? index + needle.length : index);
+    if (!includeDelimiter) {
+      this.bytesRead += needle.length;
+    }
+
+    return value;
+  }
+
+  readCString(options: { maxLength?: number } = {}): string {
+    return decodeString(this.readUntil(NUL, options));
+  }
+
+  /**
+   * Reads a line terminated by `\n` or `\r\n`, without the terminator.
+   * The last line may be unterminated; `null` is returned at end of data.
+   */
+  readLine(options: { maxLength?: number } = {}): string | null {
+    const { maxLength = Infinity } = options;
+
+    // The CR of a CRLF terminator is not part of the line, so it may be
+    // one byte past maxLength
+    const index = this.findDelimiter(Uint8Array.of(LF), maxLength, 1);
+    const length = index === -1 ? this.remaining : index;
+    if (
+      length > maxLength &&
+      (index === -1 || this.bytes[this.bytesRead + index - 1] !== CR)
+    ) {
+      throw new RangeOverflowError(
+        `Delimiter not found within ${maxLength} bytes`,
+        { offset: this.bytesRead, available: this.remaining },
+      );
+    }
+
+    if (index === -1) {
+      return this.remaining === 0
+        ? null
+        : decodeString(this.read(this.remaining));
+    }
+
+    let line = this.read(index);
+    this.bytesRead += 1;
+
+    if (line.length > 0 && line[line.length - 1] === CR) {
+      line = line.subarray(0, line.length - 1);
+    }
+
+    return decodeString(line);
+  }
+
+  readUint8(): number {
+    return this.valueReader.readUint8(this.bytes, this.advance(1));
+  }
+
+  readInt8(): number {
+    return this.valueReader.readInt8(this.bytes, this.advance(1));
+  }
+
+  readUint16(endian: Endian = this.endian): number {
+    return this.valueReader.readUint16(
+      this.bytes,
+      this.advance(2),
+      resolveEndian(endian),
+    );
+  }
+
+  readInt16(endian: Endian = this.endian): number {
+    return this.valueReader.readInt16(
+      this.bytes,
+      this.advance(2),
+      resolveEndian(endian),
+    );
+  }
+
+  readUint32(endian: Endian = this.endian): number {
+    return this.valueReader.readUint32(
+      this.bytes,
+      this.advance(4),
+      resolveEndian(endian),
+    );
+  }
+
+  readInt32(endian: Endian = this.endian): number {
+    return this.valueReader.readInt32(
+      this.bytes,
+      this.advance(4),
+      resolveEndian(endian),
+    );
+  }
+
+  readUint64(endian: Endian = this.endian): bigint {
+    return this.valueReader.readUint64(
+      this.bytes,
+      this.advance(8),
+      resolveEndian(endian),
+    );
+  }
+
+  readInt64(endian: Endian = this.endian): bigint {
+    return this.valueReader.readInt64(
+      this.bytes,
+      this.advance(8),
+      resolveEndian(endian),
+    );
+  }
+
+  readFloat16(endian: Endian = this.endian): number {
+    return this.valueReader.readFloat16(
+      this.bytes,
+      this.advance(2),
+      resolveEndian(endian),
+    );
+  }
+
+  readFloat32(endian: Endian = this.endian): number {
+    return this.valueReader.readFloat32(
+      this.bytes,
+      this.advance(4),
+      resolveEndian(endian),
+    );
+  }
+
+  readFloat64(endian: Endian = this.endian): number {
+    return this.valueReader.readFloat64(
+      this.bytes,
+      this.advance(8),
+      resolveEndian(endian),
+    );
+  }
+
+  /**
+   * Reads a `byteLength`-byte unsigned integer, as a `number` up to 6 bytes
+   * and a `bigint` beyond.
+   */
+  readUintN<N extends number>(
+    byteLength: N,
+    endian: Endian = this.endian,
+  ): IntNValue<N> {
+    assertByteLength(byteLength);
+    return decodeUintN(
+      this.bytes,
+      this.advance(byteLength),
+      byteLength,
+      resolveEndian(endian),
+    ) as IntNValue<N>;
+  }
+
+  /** Reads a `byteLength`-byte two's complement integer, as `readUintN` */
+  readIntN<N extends number>(
+    byteLength: N,
+    endian: Endian = this.endian,
+  ): IntNValue<N> {
+    assertByteLength(byteLength);
+    return decodeIntN(
+      this.bytes,
+      this.advance(byteLength),
+      byteLength,
+      resolveEndian(endian),
+    ) as IntNValue<N>;
+  }
+
+  /**
+   * Reads `count` elements of `elementSize` bytes, returned aligned and in
+   * host byte order so a typed array can view them directly.
+   */
+  private readElements(
+    count: number,
+    elementSize: number,
+    endian: Endian,
+  ): Uint8Array {
+    if (!Number.isSafeInteger(count) || count < 0) {
+      throw new RangeError("Count must be a non-negative safe integer");
+    }
+
+    const bytes = this.read(count * elementSize);
+    if (elementSize > 1 && resolveEndian(endian) !== HOST_ENDIAN) {
+      return swapByteOrder(bytes, elementSize);
+    }
+
+    return bytes.byteOffset % elementSize === 0 ? bytes : bytes.slice();
+  }
+
+  readInt8Array(count: number): Int8Array {
+    const bytes = this.readElements(count, 1, Endian.Big);
+    return new Int8Array(bytes.buffer, bytes.byteOffset, count);
+  }
+
+  readUint16Array(count: number, endian: Endian = this.endian): Uint16Array {
+    const bytes = this.readElements(count, 2, endian);
+    return new Uint16Array(bytes.buffer, bytes.byteOffset, count);
+  }
+
+  readInt16Array(count: number, endian: Endian = this.endian): Int16Array {
+    const bytes = this.readElements(count, 2, endian);
+    return new Int16Array(bytes.buffer, bytes.byteOffset, count);
+  }
+
+  readUint32Array(count: number, endian: Endian = this.endian): Uint32Array {
+    const bytes = this.readElements(count, 4, endian);
+    return new Uint32Array(bytes.buffer, bytes.byteOffset, count);
+  }
+
+  readInt32Array(count: number, endian: Endian = this.endian): Int32Array {
+    const bytes = this.readElements(count, 4, endian);
+    return new Int32Array(bytes.buffer, bytes.byteOffset, count);
+  }
+
+  readBigUint64Array(
+    count: number,
+    endian: Endian = this.endian,
+  ): BigUint64Array {
+    const bytes = this.readElements(count, 8, endian);
+    return new BigUint64Array(bytes.buffer, bytes.byteOffset, count);
+  }
+
+  readBigInt64Array(
+    count: number,
+    endian: Endian = this.endian,
+  ): BigInt64Array {
+    const bytes = this.readElements(count, 8, endian);
+    return new BigInt64Array(bytes.buffer, bytes.byteOffset, count);
+  }
+
+  readFloat32Array(count: number, endian: Endian = this.endian): Float32Array {
+    const bytes = this.readElements(count, 4, endian);
+    return new Float32Array(bytes.buffer, bytes.byteOffset, count);
+  }
+
+  readFloat64Array(count: number, endian: Endian = this.endian): Float64Array {
+    const bytes = this.readElements(count, 8, endian);
+    return new Float64Array(bytes.buffer, bytes.byteOffset, count);
+  }
+
+  readVarUint(): number {
+    return this.readLeb128(false, false);
+  }
+
+  readVarUintBigInt(): bigint {
+    return this.readLeb128(false, true);
+  }
+
+  readVarInt(): number {
+    return this.readLeb128(true, false);
+  }
+
+  readVarIntBigInt(): bigint {
+    return this.readLeb128(true, true);
+  }
+
+  readZigZag(): number {
+    const value = this.readVarUint();
+    return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+  }
+
+  readZigZagBigInt(): bigint {
+    const value = this.readVarUintBigInt();
+    return (value >> 1n) ^ -(value & 1n);
+  }
+
+  private readLeb128(signed: boolean, asBigInt: false): number;
+  private readLeb128(signed: boolean, asBigInt: true): bigint;
+  private readLeb128(signed: boolean, asBigInt: boolean): number | bigint {
+    const offset = this.bytesRead;
+    const bytes = this.peek(Math.min(this.remaining, MAX_VARINT_BYTES));
+    const result = asBigInt
+      ? decodeLeb128(bytes, signed, true, offset)
+      : decodeLeb128(bytes, signed, false, offset);
+    if (result == null) {
+      throw new UnexpectedEofError({
+        offset,
+        requested: bytes.length + 1,
+        available: bytes.length,
+      });
+    }
+
+    this.bytesRead += result.length;
+    return result.value;
+  }
+
+  /** Throws `BufferLimitError` rather than return more than `maxBytes` */
+  readUntilEof(options: { maxBytes?: number } = {}): Uint8Array {
+    const { maxBytes = Infinity } = options;
+    if (this.remaining > maxBytes) {
+      throw new BufferLimitError(
+        `Reading ${this.remaining} bytes exceeds the limit of ${maxBytes} bytes`,
+        {
+          offset: this.bytesRead,
+          requested: this.remaining,
+          available: maxBytes,
+        },
+      );
+    }
+
+    return this.read(this.remaining);
+  }
+
+  /**
+   * Returns a view that shares this reader's position but defaults to
+   * `endian` for typed reads.
+   */
+  withEndian(endian: Endian): BufferReader {
+    return new BufferReader(this, undefined, { endian });
+  }
+
+  /**
+   * Returns a view over the next `length` bytes that reports end of data at
+   * the end of that section. Reads through it advance this reader too.
+   */
+  limit(length: number | bigint): BufferReader {
+    const count = Number(length);
+    if (!Number.isSafeInteger(count) || count < 0) {
+      throw new RangeError("Limit must be a non-negative safe integer");
+    }
+
+    if (count > this.remaining) {
+      throw new RangeOverflowError(
+        `Limit of ${count} bytes exceeds the ${this.remaining} bytes remaining`,
+        {
+          offset: this.bytesRead,
+          requested: count,
+          available: this.remaining,
+        },
+      );
+    }
+
+    const section = new BufferReader(this);
+    section.end = this.bytesRead + count;
+
+    return section;
+  }
+}
@@ -1,3 +1,5 @@
+import { InvalidBufferSourceError } from "./errors";
+
 declare global {
   interface Uint8Array {
     toBase64(): string;
@@ -11,11 +13,15 @@ export function uint8ArrayFromBufferSource(
     return new Uint8Array(bufferSource);
   } else if (bufferSource instanceof Uint8Array) {
     return bufferSource;
-  } else if (bufferSource.buffer instanceof ArrayBuffer) {
-    return new Uint8Array(bufferSource.buffer);
+  } else if (bufferSource?.buffer instanceof ArrayBuffer) {
+    return new Uint8Array(
+      bufferSource.buffer,
+      bufferSource.byteOffset,
+      bufferSource.byteLength,
+    );
   }
 
-  throw new TypeError("Unsupported BufferSource type");
+  throw new InvalidBufferSourceError();
 }
 
 export function toBase64(data: BufferSource): string {
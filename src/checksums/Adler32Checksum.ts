@@ -0,0 +1,39 @@
+import type { Checksum } from "../shared";
+
+const MOD_ADLER = 65521;
+// Largest run of bytes that cannot overflow the sums before reducing them
+const NMAX = 5552;
+
+/**
+ * The Adler-32 checksum that ends every zlib stream.
+ */
+export default class Adler32Checksum implements Checksum<number> {
+  private a = 1;
+  private b = 0;
+
+  update(data: Uint8Array): void {
+    let { a, b } = this;
+
+    for (let start = 0; start < data.length; start += NMAX) {
+      const end = Math.min(start + NMAX, data.length);
+      for (let i = start; i < end; i++) {
+        a += data[i];
+        b += a;
+      }
+      a %= MOD_ADLER;
+      b %= MOD_ADLER;
+    }
+
+    this.a = a;
+    this.b = b;
+  }
+
+  digest(): number {
+    return ((this.b << 16) | this.a) >>> 0;
+  }
+
+  reset(): void {
+    this.a = 1;
+    this.b = 0;
+  }
+}
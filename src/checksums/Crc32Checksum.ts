@@ -0,0 +1,51 @@
+import type { Checksum } from "../shared";
+
+const tables = new Map<number, Uint32Array>();
+
+function getTable(polynomial: number): Uint32Array {
+  let table = tables.get(polynomial);
+  if (table == null) {
+    table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? polynomial ^ (c >>> 1) : c >>> 1;
+      }
+      table[n] = c;
+    }
+
+    tables.set(polynomial, table);
+  }
+
+  return table;
+}
+
+/**
+ * The reflected CRC-32 used by zip, gzip and PNG. Other reflected
+ * polynomials can be given in their reversed form.
+ */
+export default class Crc32Checksum implements Checksum<number> {
+  private readonly table: Uint32Array;
+  private crc = 0xffffffff;
+
+  constructor(polynomial: number = 0xedb88320) {
+    this.table = getTable(polynomial);
+  }
+
+  update(data: Uint8Array): void {
+    const table = this.table;
+    let crc = this.crc;
+    for (let i = 0; i < data.length; i++) {
+      crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    this.crc = crc;
+  }
+
+  digest(): number {
+    return (this.crc ^ 0xffffffff) >>> 0;
+  }
+
+  reset(): void {
+    this.crc = 0xffffffff;
+  }
+}
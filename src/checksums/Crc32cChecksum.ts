@@ -0,0 +1,10 @@
+import Crc32Checksum from "./Crc32Checksum";
+
+/**
+ * CRC-32C (Castagnoli), as used by iSCSI, SCTP and many storage formats.
+ */
+export default class Crc32cChecksum extends Crc32Checksum {
+  constructor() {
+    super(0x82f63b78);
+  }
+}
@@ -0,0 +1,38 @@
+import type { Checksum } from "../shared";
+
+/**
+ * The shape shared by incremental hashes such as node's `crypto.Hash` and
+ * `Bun.CryptoHasher`.
+ */
+export interface IncrementalHash<T> {
+  update(data: Uint8Array): unknown;
+  digest(): T;
+  copy?(): IncrementalHash<T>;
+}
+
+/**
+ * Adapts an incremental hash to the `Checksum` interface. `createHash` is
+ * called again on every `reset()`.
+ *
+ * Hashes that provide `copy()` can be digested repeatedly; others are
+ * finalized by `digest()` and need a `reset()` before further use.
+ */
+export default class IncrementalHashChecksum<T> implements Checksum<T> {
+  private hash: IncrementalHash<T>;
+
+  constructor(private readonly createHash: () => IncrementalHash<T>) {
+    this.hash = createHash();
+  }
+
+  update(data: Uint8Array): void {
+    this.hash.update(data);
+  }
+
+  digest(): T {
+    return (this.hash.copy?.() ?? this.hash).digest();
+  }
+
+  reset(): void {
+    this.hash = this.createHash();
+  }
+}
@@ -0,0 +1,222 @@
+/**
+ * A queue of byte chunks that is consumed as one contiguous sequence.
+ *
+ * Chunks are kept as received; bytes are only copied when a single read
+ * spans more than one chunk.
+ */
+export class ChunkQueue {
+  private chunks: Uint8Array[] = [];
+  private offset: number = 0; // Offset within the first chunk
+
+  public length: number = 0; // Unconsumed bytes held in the queue
+
+  push(chunk: Uint8Array): void {
+    if (chunk.length === 0) {
+      return;
+    }
+
+    this.chunks.push(chunk);
+    this.length += chunk.length;
+  }
+
+  /**
+   * Returns the next `count` bytes without consuming them. The result is a
+   * view into the first chunk when possible, so it must not be mutated.
+   */
+  peek(count: number): Uint8Array {
+    if (count > this.length) {
+      throw new RangeError("Not enough buffered data");
+    }
+
+    if (count === 0) {
+      return new Uint8Array(0);
+    }
+
+    const first = this.chunks[0];
+    if (this.offset + count <= first.length) {
+      return first.subarray(this.offset, this.offset + count);
+    }
+
+    const value = new Uint8Array(count);
+    let written = 0;
+    let offset = this.offset;
+
+    for (const chunk of this.chunks) {
+      const n = Math.min(chunk.length - offset, count - written);
+      value.set(chunk.subarray(offset, offset + n), written);
+      written += n;
+      offset = 0;
+
+      if (written === count) {
+        break;
+      }
+    }
+
+    return value;
+  }
+
+  /** The first chunk, which `coalesce` makes hold the next bytes */
+  get head(): Uint8Array {
+    return this.chunks[0];
+  }
+
+  /**
+   * Makes the next `count` bytes contiguous in the first chunk and returns
+   * their offset in it, so they can be decoded in place. Only bytes that
+   * span chunks are copied.
+   */
+  coalesce(count: number): number {
+    if (count > this.length) {
+      throw new RangeError("Not enough buffered data");
+    }
+
+    if (count === 0 || this.offset + count <= this.chunks[0].length) {
+      return this.offset;
+    }
+
+    this.unshift([this.take(count)]);
+    return 0;
+  }
+
+  /**
+   * Returns the position of `needle` relative to the front of the queue, or
+   * -1 if it does not occur at or after `fromIndex`.
+   */
+  indexOf(needle: Uint8Array, fromIndex: number = 0): number {
+    let base = -this.offset; // Queue position of the current chunk's first byte
+
+    for (let c = 0; c < this.chunks.length; c++) {
+      const chunk = this.chunks[c];
+      let i = Math.max(fromIndex - base, c === 0 ? this.offset : 0);
+
+      while (i < chunk.length) {
+        i = chunk.indexOf(needle[0], i);
+        if (i === -1) {
+          break;
+        }
+
+        const position = base + i;
+        if (position + needle.length > this.length) {
+          return -1;
+        }
+
+        if (this.matchesAt(c, i, needle)) {
+          return position;
+        }
+
+        i++;
+      }
+
+      base += chunk.length;
+    }
+
+    return -1;
+  }
+
+  private matchesAt(
+    chunkIndex: number,
+    offset: number,
+    needle: Uint8Array,
+  ): boolean {
+    let chunk = this.chunks[chunkIndex];
+
+    // The first byte has already been matched by the caller
+    for (let j = 1; j < needle.length; j++) {
+      offset++;
+      while (offset >= chunk.length) {
+        offset -= chunk.length;
+        chunk = this.chunks[++chunkIndex];
+      }
+
+      if (chunk[offset] !== needle[j]) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  take(count: number): Uint8Array {
+    const value = this.peek(count);
+    this.discard(count);
+    return value;
+  }
+
+  /**
+   * Removes and returns up to `maxCount` bytes from the first chunk without
+   * copying them.
+   */
+  shift(maxCount: number = Infinity): Uint8Array {
+    if (this.length === 0) {
+      return new Uint8Array(0);
+    }
+
+    const first = this.chunks[0];
+    const count = Math.min(first.length - this.offset, maxCount);
+    const value = first.subarray(this.offset, this.offset + count);
+    this.discard(count);
+
+    return value;
+  }
+
+  /**
+   * Drops up to `count` bytes from the front of the queue and returns how
+   * many were actually dropped.
+   */
+  discard(count: number): number {
+    const dropped = Math.min(count, this.length);
+    let remaining = dropped;
+    let consumedChunks = 0;
+
+    while (remaining > 0) {
+      const available = this.chunks[consumedChunks].length - this.offset;
+      if (remaining < available) {
+        this.offset += remaining;
+        break;
+      }
+
+      remaining -= available;
+      this.offset = 0;
+      consumedChunks++;
+    }
+
+    if (consumedChunks > 0) {
+      this.chunks.splice(0, consumedChunks);
+    }
+
+    this.length -= dropped;
+    return dropped;
+  }
+
+  /** Puts `chunks` back in front of the unconsumed bytes, in order */
+  unshift(chunks: Uint8Array[]): void {
+    if (this.offset > 0) {
+      this.chunks[0] = this.chunks[0].subarray(this.offset);
+      this.offset = 0;
+    }
+
+    const restored = chunks.filter((chunk) => chunk.length > 0);
+    for (const chunk of restored) {
+      this.length += chunk.length;
+    }
+
+    this.chunks.unshift(...restored);
+  }
+
+  /**
+   * Removes and returns every buffered chunk, the first one trimmed to the
+   * unconsumed part.
+   */
+  drain(): Uint8Array[] {
+    const chunks = this.chunks;
+    if (chunks.length > 0) {
+      chunks[0] = chunks[0].subarray(this.offset);
+    }
+
+    this.chunks = [];
+    this.offset = 0;
+    this.length = 0;
+
+    return chunks;
+  }
+}
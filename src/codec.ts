@@ -0,0 +1,407 @@
+import { encodeString, type StringEncodingOptions } from "./encoding";
+import { CodecError } from "./errors";
+import { type BinaryReader, Endian, type MaybePromise } from "./shared";
+import type { StreamWriter } from "./writer";
+
+/**
+ * Reads and writes one kind of value. Codecs compose into structs, so a
+ * record's layout is declared once instead of in mirrored read and write
+ * functions.
+ *
+ * `fields` is the enclosing struct: the fields decoded so far, or the whole
+ * value being encoded. Codecs use it to refer to earlier fields.
+ */
+export interface Codec<T> {
+  decode(reader: BinaryReader, fields?: Record<string, unknown>): Promise<T>;
+  encode(
+    writer: StreamWriter,
+    value: T,
+    fields?: Record<string, unknown>,
+  ): Promise<void>;
+}
+
+/**
+ * A codec for values whose byte length is stored elsewhere, such as a
+ * string, used through `lengthPrefixed`.
+ */
+export interface SizedCodec<T> {
+  decode(reader: BinaryReader, length: number): Promise<T>;
+  toBytes(value: T): Uint8Array;
+}
+
+/** A struct field that is only present when its condition holds */
+export interface OptionalCodec<T> extends Codec<T | undefined> {
+  readonly optional: true;
+}
+
+/** The value type of a codec, e.g. `type Header = Infer<typeof Header>` */
+export type Infer<C> = C extends Codec<infer T> ? T : never;
+
+type Fields = Record<string, Codec<any>>;
+
+type OptionalKeys<F extends Fields> = {
+  [K in keyof F]: F[K] extends OptionalCodec<any> ? K : never;
+}[keyof F];
+
+export type StructValue<F extends Fields> = {
+  [K in Exclude<keyof F, OptionalKeys<F>>]: Infer<F[K]>;
+} & {
+  [K in OptionalKeys<F>]?: Exclude<Infer<F[K]>, undefined>;
+} extends infer V
+  ? { [K in keyof V]: V[K] }
+  : never;
+
+function primitive<T>(
+  read: (reader: BinaryReader) => MaybePromise<T>,
+  write: (writer: StreamWriter, value: T) => Promise<unknown>,
+): Codec<T> {
+  return {
+    async decode(reader) {
+      return read(reader);
+    },
+    async encode(writer, value) {
+      await write(writer, value);
+    },
+  };
+}
+
+/**
+ * A primitive for a `bits`-wide integer. Values that do not fit throw
+ * `CodecError` instead of being wrapped by the writer, which would write
+ * something that decodes differently, such as a truncated length prefix.
+ */
+function integer<T extends number | bigint>(
+  bits: number,
+  signed: boolean,
+  read: (reader: BinaryReader) => MaybePromise<T>,
+  write: (writer: StreamWriter, value: T) => Promise<unknown>,
+): Codec<T> {
+  const min = signed ? -(1n << BigInt(bits - 1)) : 0n;
+  const max = (1n << BigInt(signed ? bits - 1 : bits)) - 1n;
+
+  return primitive(read, (writer, value) => {
+    if (
+      (typeof value === "number" && !Number.isInteger(value)) ||
+      BigInt(value) < min ||
+      BigInt(value) > max
+    ) {
+      throw new CodecError(
+        `${value} does not fit ${signed ? "a signed" : "an unsigned"} ${bits}-bit integer`,
+        { offset: writer.bytesWritten },
+      );
+    }
+
+    return write(writer, value);
+  });
+}
+
+export const u8 = integer(
+  8,
+  false,
+  (r) => r.readUint8(),
+  (w, v: number) => w.writeUint8(v),
+);
+export const i8 = integer(
+  8,
+  true,
+  (r) => r.readInt8(),
+  (w, v: number) => w.writeInt8(v),
+);
+export const u16be = integer(
+  16,
+  false,
+  (r) => r.readUint16(Endian.Big),
+  (w, v: number) => w.writeUint16(v, Endian.Big),
+);
+export const u16le = integer(
+  16,
+  false,
+  (r) => r.readUint16(Endian.Little),
+  (w, v: number) => w.writeUint16(v, Endian.Little),
+);
+export const i16be = integer(
+  16,
+  true,
+  (r) => r.readInt16(Endian.Big),
+  (w, v: number) => w.writeInt16(v, Endian.Big),
+);
+export const i16le = integer(
+  16,
+  true,
+  (r) => r.readInt16(Endian.Little),
+  (w, v: number) => w.writeInt16(v, Endian.Little),
+);
+export const u32be = integer(
+  32,
+  false,
+  (r) => r.readUint32(Endian.Big),
+  (w, v: number) => w.writeUint32(v, Endian.Big),
+);
+export const u32le = integer(
+  32,
+  false,
+  (r) => r.readUint32(Endian.Little),
+  (w, v: number) => w.writeUint32(v, Endian.Little),
+);
+export const i32be = integer(
+  32,
+  true,
+  (r) => r.readInt32(Endian.Big),
+  (w, v: number) => w.writeInt32(v, Endian.Big),
+);
+export const i32le = integer(
+  32,
+  true,
+  (r) => r.readInt32(Endian.Little),
+  (w, v: number) => w.writeInt32(v, Endian.Little),
+);
+export const u64be = integer(
+  64,
+  false,
+  (r) => r.readUint64(Endian.Big),
+  (w, v: bigint) => w.writeUint64(v, Endian.Big),
+);
+export const u64le = integer(
+  64,
+  false,
+  (r) => r.readUint64(Endian.Little),
+  (w, v: bigint) => w.writeUint64(v, Endian.Little),
+);
+export const i64be = integer(
+  64,
+  true,
+  (r) => r.readInt64(Endian.Big),
+  (w, v: bigint) => w.writeInt64(v, Endian.Big),
+);
+export const i64le = integer(
+  64,
+  true,
+  (r) => r.readInt64(Endian.Little),
+  (w, v: bigint) => w.writeInt64(v, Endian.Little),
+);
+export const f32be = primitive(
+  (r) => r.readFloat32(Endian.Big),
+  (w, v: number) => w.writeFloat32(v, Endian.Big),
+);
+export const f32le = primitive(
+  (r) => r.readFloat32(Endian.Little),
+  (w, v: number) => w.writeFloat32(v, Endian.Little),
+);
+export const f64be = primitive(
+  (r) => r.readFloat64(Endian.Big),
+  (w, v: number) => w.writeFloat64(v, Endian.Big),
+);
+export const f64le = primitive(
+  (r) => r.readFloat64(Endian.Little),
+  (w, v: number) => w.writeFloat64(v, Endian.Little),
+);
+export const varuint = primitive(
+  (r) => r.readVarUint(),
+  (w, v: number) => w.writeVarUint(v),
+);
+
+/** A NUL-terminated UTF-8 string */
+export const cstring = primitive(
+  (r) => r.readCString(),
+  async (w, v: string) => {
+    await w.writeString(v);
+    await w.writeUint8(0);
+  },
+);
+
+/** A string in the given encoding, sized by `lengthPrefixed` */
+export function string(
+  options: StringEncodingOptions = {},
+): SizedCodec<string> {
+  return {
+    async decode(reader, length) {
+      return reader.readString(length, options);
+    },
+    toBytes(value) {
+      return encodeString(value, options);
+    },
+  };
+}
+
+export const utf8 = string();
+
+/** Raw bytes, sized by `lengthPrefixed` */
+export const bytes: SizedCodec<Uint8Array> = {
+  async decode(reader, length) {
+    return reader.read(length);
+  },
+  toBytes(value) {
+    return value;
+  },
+};
+
+/**
+ * A value preceded by its byte length, e.g.
+ * `lengthPrefixed(u16le, utf8)` for a string with a 16-bit length.
+ */
+export function lengthPrefixed<T>(
+  length: Codec<number>,
+  body: SizedCodec<T>,
+): Codec<T> {
+  return {
+    async decode(reader) {
+      return body.decode(reader, await length.decode(reader));
+    },
+    async encode(writer, value) {
+      const data = body.toBytes(value);
+      await length.encode(writer, data.length);
+      await writer.write(data);
+    },
+  };
+}
+
+/**
+ * A value that must always be `expected`, such as a magic number. Decoding
+ * anything else throws `CodecError`; encoding always writes `expected`.
+ */
+export function constant<T, const V extends T>(
+  codec: Codec<T>,
+  expected: V,
+): Codec<V> {
+  return {
+    async decode(reader, fields) {
+      const offset = reader.bytesRead;
+      const value = await codec.decode(reader, fields);
+      if (value !== expected) {
+        throw new CodecError(
+          `Expected ${String(expected)} but found ${String(value)}`,
+          { offset },
+        );
+      }
+
+      return expected;
+    },
+    async encode(writer, _value, fields) {
+      await codec.encode(writer, expected, fields);
+    },
+  };
+}
+
+/**
+ * A struct field that is only present when `when` returns true for the
+ * fields before it, e.g. `optional(u32be, (h) => (h.flags & 1) !== 0)`.
+ * Absent fields are left out of the decoded value.
+ */
+export function optional<T>(
+  codec: Codec<T>,
+  when: (fields: Record<string, any>) => boolean,
+): OptionalCodec<T> {
+  return {
+    optional: true,
+    async decode(reader, fields = {}) {
+      return when(fields) ? codec.decode(reader, fields) : undefined;
+    },
+    async encode(writer, value, fields = {}) {
+      if (!when(fields)) {
+        return;
+      }
+
+      if (value === undefined) {
+        throw new CodecError(
+          "Optional field is missing but its condition holds",
+          {
+            offset: writer.bytesWritten,
+          },
+        );
+      }
+
+      await codec.encode(writer, value, fields);
+    },
+  };
+}
+
+/**
+ * A list of `item`s. `count` is a fixed number of items, a codec for a
+ * count written before the items, or the name of an earlier struct field
+ * holding the count.
+ */
+export function array<T>(
+  item: Codec<T>,
+  count: number | Codec<number> | string,
+): Codec<T[]> {
+  return {
+    async decode(reader, fields = {}) {
+      const offset = reader.bytesRead;
+      let length: unknown;
+      if (typeof count === "number") {
+        length = count;
+      } else if (typeof count === "string") {
+        length = fields[count];
+      } else {
+        length = await count.decode(reader, fields);
+      }
+
+      if (!Number.isSafeInteger(length) || (length as number) < 0) {
+        throw new CodecError(`Invalid array count ${String(length)}`, {
+          offset,
+        });
+      }
+
+      const items: T[] = [];
+      for (let i = 0; i < (length as number); i++) {
+        items.push(await item.decode(reader, fields));
+      }
+
+      return items;
+    },
+    async encode(writer, value, fields = {}) {
+      if (typeof count === "object") {
+        await count.encode(writer, value.length, fields);
+      } else {
+        const expected = typeof count === "number" ? count : fields[count];
+        if (value.length !== expected) {
+          throw new CodecError(
+            `Array has ${value.length} items but its count is ${String(expected)}`,
+            { offset: writer.bytesWritten },
+          );
+        }
+      }
+
+      for (const element of value) {
+        await item.encode(writer, element, fields);
+      }
+    },
+  };
+}
+
+/**
+ * A record of named fields read and written in declaration order. Structs
+ * are codecs themselves, so they nest.
+ *
+ * ```typescript
+ * const Header = struct({
+ *   magic: constant(u32be, 0x89504e47),
+ *   version: u8,
+ *   name: lengthPrefixed(u16le, utf8),
+ * });
+ * type Header = Infer<typeof Header>;
+ * ```
+ */
+export function struct<F extends Fields>(fields: F): Codec<StructValue<F>> {
+  const entries = Object.entries(fields);
+
+  return {
+    async decode(reader) {
+      const value: Record<string, unknown> = {};
+      for (const [key, codec] of entries) {
+        const field = await codec.decode(reader, value);
+        if (field !== undefined) {
+          value[key] = field;
+        }
+      }
+
+      return value as StructValue<F>;
+    },
+    async encode(writer, value) {
+      const record = value as Record<string, unknown>;
+      for (const [key, codec] of entries) {
+        await codec.encode(writer, record[key], record);
+      }
+    },
+  };
+}
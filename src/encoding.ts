@@ -0,0 +1,167 @@
+import { StringEncodingError } from "./errors";
+
+export type StringEncoding =
+  | "utf-8"
+  | "utf-16le"
+  | "utf-16be"
+  | "latin1"
+  | "windows-1252";
+
+export interface StringEncodingOptions {
+  /** Defaults to `"utf-8"` */
+  encoding?: StringEncoding;
+  /** Throw on invalid or unencodable input instead of substituting it */
+  fatal?: boolean;
+}
+
+// Code points for bytes 0x80-0x9F; the rest of windows-1252 matches latin1
+const WINDOWS_1252_HIGH = [
+  0x20ac, 0x0081, 0x201a, 0x0192, 0x201e, 0x2026, 0x2020, 0x2021, 0x02c6,
+  0x2030, 0x0160, 0x2039, 0x0152, 0x008d, 0x017d, 0x008f, 0x0090, 0x2018,
+  0x2019, 0x201c, 0x201d, 0x2022, 0x2013, 0x2014, 0x02dc, 0x2122, 0x0161,
+  0x203a, 0x0153, 0x009d, 0x017e, 0x0178,
+];
+
+const WINDOWS_1252_ENCODE = new Map(
+  WINDOWS_1252_HIGH.map((codePoint, i) => [codePoint, 0x80 + i]),
+);
+
+const REPLACEMENT_BYTE = 0x3f; // "?"
+
+const textEncoder = new TextEncoder();
+const textDecoders = new Map<string, TextDecoder>();
+
+function getTextDecoder(encoding: string, fatal: boolean): TextDecoder {
+  const key = `${encoding}:${fatal}`;
+  let decoder = textDecoders.get(key);
+  if (decoder == null) {
+    decoder = new TextDecoder(encoding, { fatal });
+    textDecoders.set(key, decoder);
+  }
+
+  return decoder;
+}
+
+function decodeLatin1(data: Uint8Array): string {
+  // TextDecoder treats "latin1" as windows-1252, so map bytes directly
+  const CHUNK_SIZE = 0x2000;
+  let result = "";
+  for (let i = 0; i < data.length; i += CHUNK_SIZE) {
+    result += String.fromCharCode(...data.subarray(i, i + CHUNK_SIZE));
+  }
+
+  return result;
+}
+
+/**
+ * Decodes `data` as a string. `offset` is the stream position reported in
+ * errors.
+ */
+export function decodeString(
+  data: Uint8Array,
+  options: StringEncodingOptions = {},
+  offset?: number,
+): string {
+  const { encoding = "utf-8", fatal = false } = options;
+
+  if (encoding === "latin1") {
+    return decodeLatin1(data);
+  }
+
+  try {
+    return getTextDecoder(encoding, fatal).decode(data);
+  } catch (error) {
+    if (error instanceof TypeError && fatal) {
+      throw new StringEncodingError(
+        `Invalid ${encoding} data`,
+        { offset },
+        { cause: error },
+      );
+    }
+
+    throw error;
+  }
+}
+
+function assertWellFormed(value: string, fatal: boolean, offset?: number) {
+  if (fatal && !value.isWellFormed()) {
+    throw new StringEncodingError("String contains lone surrogates", {
+      offset,
+    });
+  }
+}
+
+function encodeUtf16(value: string, littleEndian: boolean): Uint8Array {
+  const data = new Uint8Array(value.length * 2);
+  const dataView = new DataView(data.buffer);
+  for (let i = 0; i < value.length; i++) {
+    dataView.setUint16(i * 2, value.charCodeAt(i), littleEndian);
+  }
+
+  return data;
+}
+
+function encodeSingleByte(
+  value: string,
+  encoding: "latin1" | "windows-1252",
+  fatal: boolean,
+  offset?: number,
+): Uint8Array {
+  const bytes: number[] = [];
+
+  for (const char of value) {
+    const codePoint = char.codePointAt(0)!;
+
+    let byte: number | undefined;
+    if (codePoint < 0x80 || (codePoint >= 0xa0 && codePoint <= 0xff)) {
+      byte = codePoint;
+    } else if (encoding === "latin1") {
+      byte = codePoint <= 0xff ? codePoint : undefined;
+    } else {
+      byte = WINDOWS_1252_ENCODE.get(codePoint);
+    }
+
+    if (byte == null) {
+      if (fatal) {
+        const hex = codePoint.toString(16).toUpperCase().padStart(4, "0");
+        throw new StringEncodingError(
+          `U+${hex} cannot be encoded as ${encoding}`,
+          { offset },
+        );
+      }
+
+      byte = REPLACEMENT_BYTE;
+    }
+
+    bytes.push(byte);
+  }
+
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Encodes `value` as bytes. `offset` is the stream position reported in
+ * errors.
+ */
+export function encodeString(
+  value: string,
+  options: StringEncodingOptions = {},
+  offset?: number,
+): Uint8Array {
+  const { encoding = "utf-8", fatal = false } = options;
+
+  switch (encoding) {
+    case "utf-8":
+      assertWellFormed(value, fatal, offset);
+      return textEncoder.encode(value);
+    case "utf-16le":
+    case "utf-16be":
+      assertWellFormed(value, fatal, offset);
+      return encodeUtf16(value, encoding === "utf-16le");
+    case "latin1":
+    case "windows-1252":
+      return encodeSingleByte(value, encoding, fatal, offset);
+    default:
+      throw new RangeError(`Unsupported encoding: ${encoding}`);
+  }
+}
@@ -0,0 +1,37 @@
+import { Endian } from "./shared";
+
+// Typed arrays store their elements in the host's byte order
+export const HOST_ENDIAN =
+  new Uint8Array(Uint16Array.of(1).buffer)[0] === 1
+    ? Endian.Little
+    : Endian.Big;
+
+export function resolveEndian(endian: Endian): Endian.Little | Endian.Big {
+  if (endian === Endian.Native) {
+    return HOST_ENDIAN;
+  }
+
+  return endian;
+}
+
+export function isLittleEndian(endian: Endian): boolean {
+  return resolveEndian(endian) === Endian.Little;
+}
+
+/**
+ * Returns a copy of `bytes` with the byte order of every `elementSize` byte
+ * element reversed.
+ */
+export function swapByteOrder(
+  bytes: Uint8Array,
+  elementSize: number,
+): Uint8Array {
+  const swapped = new Uint8Array(bytes.length);
+  for (let i = 0; i < bytes.length; i += elementSize) {
+    for (let j = 0; j < elementSize; j++) {
+      swapped[i + j] = bytes[i + elementSize - 1 - j];
+    }
+  }
+
+  return swapped;
+}
@@ -0,0 +1,116 @@
+export interface ErrorContext {
+  /** Reader or writer position at the start of the failed operation */
+  offset?: number;
+  /** Number of bytes the operation needed */
+  requested?: number;
+  /** Number of bytes that were available to it */
+  available?: number;
+}
+
+/**
+ * Base class for every error thrown by this library.
+ */
+export class ConduitError extends Error {
+  override name = "ConduitError";
+
+  readonly offset?: number;
+  readonly requested?: number;
+  readonly available?: number;
+
+  constructor(
+    message: string,
+    context: ErrorContext = {},
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+    this.offset = context.offset;
+    this.requested = context.requested;
+    this.available = context.available;
+  }
+}
+
+export class UnexpectedEofError extends ConduitError {
+  override name = "UnexpectedEofError";
+
+  constructor(context: ErrorContext = {}) {
+    super(`Unexpected end of stream${describeContext(context)}`, context);
+  }
+}
+
+/**
+ * Thrown when a value or length does not fit the range allowed for it.
+ */
+export class RangeOverflowError extends ConduitError {
+  override name = "RangeOverflowError";
+}
+
+/**
+ * Thrown when a read would buffer more bytes than the reader's
+ * `maxBufferSize`, or another configured limit, allows.
+ */
+export class BufferLimitError extends RangeOverflowError {
+  override name = "BufferLimitError";
+}
+
+/**
+ * Thrown by operations on a reader or writer that was closed, cancelled or
+ * aborted, including operations still pending at that moment.
+ */
+export class StreamClosedError extends ConduitError {
+  override name = "StreamClosedError";
+
+  constructor(context: ErrorContext = {}, options?: ErrorOptions) {
+    super("Stream is closed", context, options);
+  }
+}
+
+/**
+ * Thrown when an operation is cancelled through its `AbortSignal`; the
+ * signal's reason is kept as `cause`.
+ */
+export class AbortError extends ConduitError {
+  override name = "AbortError";
+
+  constructor(reason: unknown, context: ErrorContext = {}) {
+    super("Operation was aborted", context, { cause: reason });
+  }
+}
+
+/**
+ * Thrown in `fatal` mode when bytes are not valid in a string's encoding, or
+ * a string cannot be encoded in it. The underlying error is kept as `cause`.
+ */
+export class StringEncodingError extends ConduitError {
+  override name = "StringEncodingError";
+}
+
+export class VarIntError extends ConduitError {
+  override name = "VarIntError";
+}
+
+/**
+ * Thrown when data does not match a codec, such as a wrong magic value, or a
+ * value to encode is inconsistent with its struct.
+ */
+export class CodecError extends ConduitError {
+  override name = "CodecError";
+}
+
+export class InvalidBufferSourceError extends ConduitError {
+  override name = "InvalidBufferSourceError";
+
+  constructor() {
+    super("Unsupported BufferSource type");
+  }
+}
+
+function describeContext(context: ErrorContext): string {
+  const { offset, requested, available } = context;
+
+  let description = offset != null ? ` at offset ${offset}` : "";
+  if (requested != null && available != null) {
+    description += ` (requested ${requested} bytes, ${available} available)`;
+  }
+
+  return description;
+}
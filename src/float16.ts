@@ -0,0 +1,75 @@
+/**
+ * Software IEEE 754 half-precision conversions, used where
+ * `DataView.prototype.getFloat16`/`setFloat16` are not available.
+ */
+
+export function hasNativeFloat16(): boolean {
+  return (
+    typeof DataView.prototype.getFloat16 === "function" &&
+    typeof DataView.prototype.setFloat16 === "function"
+  );
+}
+
+export function float16BitsToNumber(bits: number): number {
+  const sign = bits & 0x8000 ? -1 : 1;
+  const exponent = (bits >>> 10) & 0x1f;
+  const mantissa = bits & 0x3ff;
+
+  if (exponent === 0) {
+    return sign * mantissa * 2 ** -24;
+  }
+
+  if (exponent === 0x1f) {
+    return mantissa === 0 ? sign * Infinity : NaN;
+  }
+
+  return sign * (1 + mantissa / 0x400) * 2 ** (exponent - 15);
+}
+
+function roundHalfToEven(value: number): number {
+  const rounded = Math.round(value);
+  // Math.round rounds ties up, so step back down when that made it odd
+  return rounded - value === 0.5 && rounded % 2 !== 0 ? rounded - 1 : rounded;
+}
+
+export function numberToFloat16Bits(value: number): number {
+  if (Number.isNaN(value)) {
+    return 0x7e00;
+  }
+
+  const sign = value < 0 || Object.is(value, -0) ? 0x8000 : 0;
+  const abs = Math.abs(value);
+
+  if (abs === 0) {
+    return sign;
+  }
+
+  if (abs === Infinity) {
+    return sign | 0x7c00;
+  }
+
+  if (abs < 2 ** -14) {
+    // Subnormal; rounding up to 0x400 correctly yields the smallest normal
+    return sign | roundHalfToEven(abs * 2 ** 24);
+  }
+
+  let exponent = Math.floor(Math.log2(abs));
+  // Math.log2 may be off by one close to powers of two
+  if (2 ** exponent > abs) {
+    exponent--;
+  } else if (2 ** (exponent + 1) <= abs) {
+    exponent++;
+  }
+
+  let mantissa = roundHalfToEven((abs / 2 ** exponent - 1) * 0x400);
+  if (mantissa === 0x400) {
+    mantissa = 0;
+    exponent++;
+  }
+
+  if (exponent > 15) {
+    return sign | 0x7c00;
+  }
+
+  return sign | ((exponent + 15) << 10) | mantissa;
+}
@@ -0,0 +1,51 @@
+import { StreamReader } from "./reader";
+import type { Checksum } from "./shared";
+
+/**
+ * A view of a StreamReader that feeds every byte it consumes to `checksum`.
+ *
+ * Bytes consumed through the parent reader or any other view sharing its
+ * position are included too, until `detach()` is called. Bytes read again
+ * after rewinding with `reset(mark)` are fed to the checksum again, as it
+ * sees bytes in the order they are consumed; call `resetChecksum()` after
+ * rewinding to checksum them once. Use `resetChecksum()` and `digest()` to
+ * checksum a single region:
+ *
+ * ```ts
+ * const hashing = new HashingReader(reader, new Crc32Checksum());
+ * const data = await hashing.read(length);
+ * const valid = hashing.digest() === (await reader.readUint32());
+ * ```
+ */
+export class HashingReader<T = number> extends StreamReader {
+  private readonly observer = (bytes: Uint8Array) => {
+    this.checksum.update(bytes);
+  };
+
+  constructor(
+    source: StreamReader,
+    public readonly checksum: Checksum<T>,
+  ) {
+    super(source);
+    this.addObserver(this.observer);
+  }
+
+  digest(): T {
+    return this.checksum.digest();
+  }
+
+  /** Starts a new region; named apart from `reset(mark)` on readers */
+  resetChecksum(): void {
+    this.checksum.reset();
+  }
+
+  /** Stops feeding bytes to the checksum, which keeps its current state */
+  detach(): void {
+    this.removeObserver(this.observer);
+  }
+
+  /** Disposing detaches the checksum and leaves the source open */
+  protected override async releaseView(): Promise<void> {
+    this.detach();
+  }
+}
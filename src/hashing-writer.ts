@@ -0,0 +1,41 @@
+import type { Checksum } from "./shared";
+import { StreamWriter } from "./writer";
+
+/**
+ * A view of a StreamWriter that feeds every byte it writes to `checksum`.
+ *
+ * Bytes written through the parent writer or any other view sharing its
+ * stream are included too, until `detach()` is called.
+ */
+export class HashingWriter<T = number> extends StreamWriter {
+  private readonly observer = (bytes: Uint8Array) => {
+    this.checksum.update(bytes);
+  };
+
+  constructor(
+    target: StreamWriter,
+    public readonly checksum: Checksum<T>,
+  ) {
+    super(target);
+    this.addObserver(this.observer);
+  }
+
+  digest(): T {
+    return this.checksum.digest();
+  }
+
+  /** Starts a new region; named apart from `reset(mark)` on readers */
+  resetChecksum(): void {
+    this.checksum.reset();
+  }
+
+  /** Stops feeding bytes to the checksum, which keeps its current state */
+  detach(): void {
+    this.removeObserver(this.observer);
+  }
+
+  /** Disposing detaches the checksum and leaves the stream open */
+  protected override async releaseView(): Promise<void> {
+    this.detach();
+  }
+}
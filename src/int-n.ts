@@ -0,0 +1,90 @@
+import { RangeOverflowError } from "./errors";
+import { Endian } from "./shared";
+import BitOpsValueReader from "./value-readers/BitOpsValueReader";
+
+/** Widest integer, in bytes, that is always exact as a number */
+export const MAX_NUMBER_BYTES = 6;
+
+const bitOps = new BitOpsValueReader();
+
+export function assertByteLength(byteLength: number): void {
+  if (!Number.isSafeInteger(byteLength) || byteLength < 1) {
+    throw new RangeError("Byte length must be a positive integer");
+  }
+}
+
+/**
+ * Decodes the `byteLength`-byte unsigned integer at `offset`, as a number up
+ * to `MAX_NUMBER_BYTES` and as a bigint beyond.
+ */
+export function decodeUintN(
+  buf: Uint8Array,
+  offset: number,
+  byteLength: number,
+  endian: Endian.Little | Endian.Big,
+): number | bigint {
+  if (byteLength > MAX_NUMBER_BYTES) {
+    return bitOps.bufferToUnsignedBigInt(buf, endian, offset, byteLength);
+  }
+
+  // Multiplying instead of shifting stays exact past 32 bits
+  let value = 0;
+  for (let i = 0; i < byteLength; i++) {
+    const index = endian === Endian.Big ? i : byteLength - 1 - i;
+    value = value * 0x100 + buf[offset + index];
+  }
+
+  return value;
+}
+
+export function decodeIntN(
+  buf: Uint8Array,
+  offset: number,
+  byteLength: number,
+  endian: Endian.Little | Endian.Big,
+): number | bigint {
+  const value = decodeUintN(buf, offset, byteLength, endian);
+  if (typeof value === "bigint") {
+    return BigInt.asIntN(byteLength * 8, value);
+  }
+
+  const signBit = 2 ** (byteLength * 8 - 1);
+  return value >= signBit ? value - 2 * signBit : value;
+}
+
+/**
+ * Encodes `value` as a `byteLength`-byte integer. `offset` is the stream
+ * position reported in errors.
+ */
+export function encodeIntN(
+  value: number | bigint,
+  byteLength: number,
+  endian: Endian.Little | Endian.Big,
+  signed: boolean,
+  offset: number,
+): Uint8Array {
+  if (typeof value === "number" && !Number.isSafeInteger(value)) {
+    throw new RangeOverflowError("Value must be a safe integer", { offset });
+  }
+
+  const bits = byteLength * 8;
+  let remaining = BigInt(value);
+  const min = signed ? -(1n << BigInt(bits - 1)) : 0n;
+  const max = signed ? 1n << BigInt(bits - 1) : 1n << BigInt(bits);
+  if (remaining < min || remaining >= max) {
+    throw new RangeOverflowError(
+      `Value must be ${signed ? "a signed" : "an unsigned"} ${bits}-bit integer`,
+      { offset },
+    );
+  }
+
+  remaining = BigInt.asUintN(bits, remaining);
+  const bytes = new Uint8Array(byteLength);
+  for (let i = 0; i < byteLength; i++) {
+    const index = endian === Endian.Little ? i : byteLength - 1 - i;
+    bytes[index] = Number(remaining & 0xffn);
+    remaining >>= 8n;
+  }
+
+  return bytes;
+}
@@ -1,158 +1,1466 @@
-import { uint8ArrayFromBufferSource } from "./buffer";
-import { Endian, type ValueReader } from "./shared";
+import { combineSignals, raceAbort, throwIfAborted } from "./abort";
+import { ChunkQueue } from "./chunk-queue";
+import { decodeString, type StringEncodingOptions } from "./encoding";
+import {
+  AbortError,
+  BufferLimitError,
+  ConduitError,
+  type ErrorContext,
+  RangeOverflowError,
+  StreamClosedError,
+  UnexpectedEofError,
+} from "./errors";
+import { HOST_ENDIAN, resolveEndian, swapByteOrder } from "./endian";
+import { assertByteLength, decodeIntN, decodeUintN } from "./int-n";
+import {
+  type BinaryReader,
+  Endian,
+  type IntNValue,
+  type OperationOptions,
+  type ValueReader,
+} from "./shared";
+import { createBufferStream, createIterableStream } from "./sources";
 import DefaultValueReader from "./value-readers/DefaultValueReader";
+import { decodeLeb128, MAX_VARINT_BYTES } from "./varint";
 
-export class StreamReader {
-  private readonly reader: ReadableStreamDefaultReader<Uint8Array>;
-  private buffer: Uint8Array = new Uint8Array(0); // Internal buffer
-  private bufferOffset: number = 0; // Offset within the buffer
+const NUL = 0x00;
+const LF = 0x0a;
+const CR = 0x0d;
+
+export interface StreamReaderOptions {
+  /** Default signal for every operation, combined with any per-call signal */
+  signal?: AbortSignal;
+  /** Default byte order for typed reads; defaults to `Endian.Big` */
+  endian?: Endian;
+  /**
+   * Largest number of bytes a single read may buffer; larger reads throw
+   * `BufferLimitError` before anything is allocated. Defaults to unbounded.
+   */
+  maxBufferSize?: number;
+  /** Called whenever bytes are consumed, through this reader or its views */
+  onRead?: (progress: ReadProgress) => void;
+  /**
+   * Called with each chunk pulled from the source. `buffered` does not
+   * include the new chunk yet.
+   */
+  onChunk?: (progress: ReadProgress) => void;
+}
+
+export interface ReadUntilEofOptions extends OperationOptions {
+  /** Throws `BufferLimitError` rather than return more bytes than this */
+  maxBytes?: number;
+}
+
+export interface MarkOptions {
+  /**
+   * Most bytes the mark may keep for a later `reset()`; consuming past it
+   * throws `BufferLimitError`. Defaults to unbounded.
+   */
+  maxRetained?: number;
+}
+
+/** Position returned by `mark()`, to be passed to `reset()` and `release()` */
+export interface ReaderMark {
+  readonly position: number;
+}
+
+interface MarkState extends ReaderMark {
+  readonly maxRetained: number;
+}
+
+export interface ReadProgress {
+  /** Size of the consumed bytes or of the pulled chunk */
+  bytes: number;
+  /** Position after the bytes were consumed */
+  bytesRead: number;
+  /** Bytes pulled from the source but not consumed yet */
+  buffered: number;
+}
+
+export interface ReadUntilOptions extends OperationOptions {
+  /** Maximum number of bytes before the delimiter; defaults to unbounded */
+  maxLength?: number;
+  /** Whether the returned bytes end with the delimiter */
+  includeDelimiter?: boolean;
+}
+
+// Source, position and lifecycle, shared by a reader and the views created
+// from it
+interface ReaderState {
+  stream: ReadableStream<Uint8Array>;
+  reader: ReadableStreamDefaultReader<Uint8Array>;
+  bytesRead: number;
+  closed: boolean;
+  pendingRead?: Promise<ReadableStreamReadResult<Uint8Array>>;
+  observers: Array<(bytes: Uint8Array) => void>;
+  chunkObservers: Array<(chunk: Uint8Array) => void>;
+  // Active marks, oldest first, and the bytes consumed since the oldest one
+  marks: MarkState[];
+  retained: ChunkQueue;
+}
+
+export class StreamReader implements BinaryReader {
+  private readonly queue: ChunkQueue; // Internal buffer
+  private readonly state: ReaderState;
   private valueReader: ValueReader;
+  private readonly signal?: AbortSignal;
+  /** Position at which this reader reports end of stream */
+  protected end: number;
+  private readonly maxBufferSize: number;
+  private readonly isView: boolean; // Created from another reader
 
-  public bytesRead: number = 0;
+  /** Byte order used by typed reads that are not given one */
+  public readonly endian: Endian.Little | Endian.Big;
 
+  /**
+   * Passing another `StreamReader` creates a view that shares its buffer,
+   * position and section limit, so reads through either one advance both.
+   */
   constructor(
-    public stream: ReadableStream<Uint8Array>,
-    valueReader = new DefaultValueReader(),
+    source: ReadableStream<Uint8Array> | StreamReader,
+    valueReader?: ValueReader,
+    options: StreamReaderOptions = {},
   ) {
-    this.reader = stream.getReader();
-    this.valueReader = valueReader;
+    const { maxBufferSize } = options;
+    if (
+      maxBufferSize != null &&
+      maxBufferSize !== Infinity &&
+      (!Number.isSafeInteger(maxBufferSize) || maxBufferSize <= 0)
+    ) {
+      throw new RangeError("Buffer size limit must be a positive integer");
+    }
+
+    this.isView = source instanceof StreamReader;
+    if (source instanceof StreamReader) {
+      this.queue = source.queue;
+      this.state = source.state;
+      this.valueReader = valueReader ?? source.valueReader;
+      this.signal = options.signal ?? source.signal;
+      this.endian = resolveEndian(options.endian ?? source.endian);
+      this.end = source.end;
+      this.maxBufferSize = options.maxBufferSize ?? source.maxBufferSize;
+    } else {
+      this.queue = new ChunkQueue();
+      this.state = {
+        stream: source,
+        reader: source.getReader(),
+        bytesRead: 0,
+        closed: false,
+        observers: [],
+        chunkObservers: [],
+        marks: [],
+        retained: new ChunkQueue(),
+      };
+      this.valueReader = valueReader ?? new DefaultValueReader();
+      this.signal = options.signal;
+      this.endian = resolveEndian(options.endian ?? Endian.Big);
+      this.end = Infinity;
+      this.maxBufferSize = options.maxBufferSize ?? Infinity;
+    }
+
+    const { onRead, onChunk } = options;
+    if (onRead != null) {
+      this.addObserver((bytes) => onRead(this.progress(bytes.length)));
+    }
+    if (onChunk != null) {
+      this.state.chunkObservers.push((chunk) =>
+        onChunk(this.progress(chunk.length)),
+      );
+    }
+  }
+
+  get stream(): ReadableStream<Uint8Array> {
+    return this.state.stream;
+  }
+
+  get bytesRead(): number {
+    return this.state.bytesRead;
+  }
+
+  set bytesRead(value: number) {
+    this.state.bytesRead = value;
+  }
+
+  /**
+   * Number of bytes that may still be read before this reader reports end
+   * of stream; unbounded unless the reader is a view created by `limit()`.
+   */
+  protected get readLimit(): number {
+    return Math.max(0, this.end - this.bytesRead);
+  }
+
+  /** Bytes pulled from the stream but not consumed yet */
+  protected get bufferedLength(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Continues from `stream`, whose first byte is at `position`. Buffered
+   * bytes and any pending read from the previous stream are dropped.
+   */
+  protected replaceSource(
+    stream: ReadableStream<Uint8Array>,
+    position: number,
+  ): void {
+    this.state.reader.cancel().catch(() => {});
+
+    this.queue.drain();
+    this.releaseAllMarks();
+    this.state.stream = stream;
+    this.state.reader = stream.getReader();
+    this.state.pendingRead = undefined;
+    this.state.bytesRead = position;
+  }
+
+  static from(
+    bufferSource: BufferSource,
+    valueReader?: ValueReader,
+    options?: StreamReaderOptions,
+  ): StreamReader {
+    return StreamReader.fromChunks([bufferSource], valueReader, options);
+  }
+
+  static fromChunks(
+    chunks: Iterable<BufferSource>,
+    valueReader?: ValueReader,
+    options?: StreamReaderOptions,
+  ): StreamReader {
+    return new StreamReader(createBufferStream(chunks), valueReader, options);
+  }
+
+  static fromBlob(
+    blob: Blob,
+    valueReader?: ValueReader,
+    options?: StreamReaderOptions,
+  ): StreamReader {
+    return new StreamReader(blob.stream(), valueReader, options);
+  }
+
+  static fromResponse(
+    response: Response,
+    valueReader?: ValueReader,
+    options?: StreamReaderOptions,
+  ): StreamReader {
+    if (response.bodyUsed) {
+      throw new StreamClosedError();
+    }
+
+    // Responses without a body (e.g. 204) read as an empty stream
+    const stream = response.body ?? createBufferStream([]);
+    return new StreamReader(stream, valueReader, options);
   }
 
-  static from(bufferSource: BufferSource) {
+  static fromAsyncIterable(
+    iterable: AsyncIterable<BufferSource> | Iterable<BufferSource>,
+    valueReader?: ValueReader,
+    options?: StreamReaderOptions,
+  ): StreamReader {
     return new StreamReader(
-      new ReadableStream({
-        start(controller) {
-          controller.enqueue(uint8ArrayFromBufferSource(bufferSource));
-          controller.close();
-        },
-      }),
+      createIterableStream(iterable),
+      valueReader,
+      options,
     );
   }
 
+  /**
+   * Reads a Node.js `Readable`. It must yield `Buffer`s, so it cannot be in
+   * object mode or have an encoding set. Closing the reader early does not
+   * destroy it, but cancelling `reader.stream` does.
+   */
+  static fromNodeReadable(
+    readable: AsyncIterable<Uint8Array>,
+    valueReader?: ValueReader,
+    options?: StreamReaderOptions,
+  ): StreamReader {
+    return StreamReader.fromAsyncIterable(readable, valueReader, options);
+  }
+
+  protected get closed(): boolean {
+    return this.state.closed;
+  }
+
+  protected assertOpen(): void {
+    if (this.state.closed) {
+      throw new StreamClosedError({ offset: this.bytesRead });
+    }
+  }
+
+  /**
+   * Checks that an operation may start and returns the signal governing it.
+   */
+  private beginOperation(
+    signal: AbortSignal | undefined,
+  ): AbortSignal | undefined {
+    this.assertOpen();
+
+    const combined = combineSignals(signal, this.signal);
+    throwIfAborted(combined, { offset: this.bytesRead });
+
+    return combined;
+  }
+
+  /**
+   * Returns the next chunk from the stream, or `null` once it has ended.
+   */
+  private async pullChunk(
+    signal: AbortSignal | undefined,
+    context: ErrorContext,
+  ): Promise<Uint8Array | null> {
+    let result: ReadableStreamReadResult<Uint8Array>;
+    while (true) {
+      // A read abandoned by an aborted operation is picked up by the next
+      // one, so no chunk is lost and the reader stays usable
+      const read = (this.state.pendingRead ??= this.state.reader.read());
+
+      try {
+        result = await raceAbort(read, signal, context);
+      } catch (error) {
+        // Releasing the lock fails a pending read with a generic TypeError
+        if (this.state.closed && !(error instanceof AbortError)) {
+          throw new StreamClosedError(context, { cause: error });
+        }
+
+        throw error;
+      }
+
+      // Cancelling ends a pending read as if the stream were done
+      if (this.state.closed) {
+        throw new StreamClosedError(context);
+      }
+
+      // Concurrent operations wait on the same read, and only the first to
+      // resume takes its chunk; the others start a new read
+      if (this.state.pendingRead === read) {
+        this.state.pendingRead = undefined;
+        break;
+      }
+    }
+
+    const { done, value } = result;
+
+    if (!done) {
+      for (const observer of this.state.chunkObservers) {
+        observer(value);
+      }
+    }
+
+    return done ? null : value;
+  }
+
   private async ensureBufferFilledToAtLeast(
     count: number | bigint,
+    signal?: AbortSignal,
   ): Promise<void> {
+    signal = this.beginOperation(signal);
+
     const countNum = Number(count);
-    while (this.buffer.length - this.bufferOffset < countNum) {
-      const { done, value } = await this.reader.read();
-      if (done) {
-        throw new Error("Unexpected end of stream");
+    if (!Number.isSafeInteger(countNum) || countNum < 0) {
+      throw new RangeError("Length must be a non-negative safe integer");
+    }
+
+    if (countNum > this.readLimit) {
+      throw new UnexpectedEofError({
+        offset: this.bytesRead,
+        requested: countNum,
+        available: this.readLimit,
+      });
+    }
+
+    if (countNum > this.maxBufferSize) {
+      throw this.limitExceeded(countNum, this.maxBufferSize);
+    }
+
+    while (this.queue.length < countNum) {
+      const chunk = await this.pullChunk(signal, {
+        offset: this.bytesRead,
+        requested: countNum,
+        available: this.queue.length,
+      });
+      if (chunk == null) {
+        throw new UnexpectedEofError({
+          offset: this.bytesRead,
+          requested: countNum,
+          available: this.queue.length,
+        });
       }
 
-      // Append the new chunk to the buffer
-      const newBuffer = new Uint8Array(this.buffer.length + value.length);
-      newBuffer.set(this.buffer, 0);
-      newBuffer.set(value, this.buffer.length);
-      this.buffer = newBuffer;
+      // Queue the chunk as-is; bytes are only copied when a read spans chunks
+      this.queue.push(chunk);
     }
   }
 
-  private trimBuffer() {
-    // once we've consumed half the buffer, drop the used part
-    if (this.bufferOffset > this.buffer.byteLength >>> 1) {
-      this.buffer = this.buffer.slice(this.bufferOffset);
-      this.bufferOffset = 0;
+  // Buffers the next `count` bytes in one chunk and returns their offset in
+  // `queue.head`, so typed values are decoded without copying them out
+  private async fillContiguous(
+    count: number,
+    signal: AbortSignal | undefined,
+  ): Promise<number> {
+    await this.ensureBufferFilledToAtLeast(count, signal);
+    return this.queue.coalesce(count);
+  }
+
+  async read(
+    len: number | bigint,
+    options: OperationOptions = {},
+  ): Promise<Uint8Array> {
+    const count = Number(len);
+    await this.ensureBufferFilledToAtLeast(count, options.signal);
+
+    return this.consume(count);
+  }
+
+  /**
+   * Discards `len` bytes. When aborted part way, the bytes skipped so far stay
+   * consumed and are reflected in `bytesRead`.
+   */
+  async skip(
+    len: number | bigint,
+    options: OperationOptions = {},
+  ): Promise<void> {
+    const signal = this.beginOperation(options.signal);
+
+    const count = Number(len);
+    if (!Number.isSafeInteger(count) || count < 0) {
+      throw new RangeError("Length must be a non-negative safe integer");
+    }
+
+    // Drop whatever is already buffered first
+    const offset = this.bytesRead;
+    if (count > this.readLimit) {
+      throw new UnexpectedEofError({
+        offset,
+        requested: count,
+        available: this.readLimit,
+      });
+    }
+
+    this.assertRetainable(count);
+
+    let remaining = count;
+    const dropped = Math.min(remaining, this.queue.length);
+    this.discardBuffered(dropped);
+    remaining -= dropped;
+
+    // Discard incoming chunks without queueing them
+    while (remaining > 0) {
+      const chunk = await this.pullChunk(signal, {
+        offset,
+        requested: count,
+        available: count - remaining,
+      });
+      if (chunk == null) {
+        throw new UnexpectedEofError({
+          offset,
+          requested: count,
+          available: count - remaining,
+        });
+      }
+
+      if (chunk.length > remaining) {
+        // Keep the unskipped tail of the chunk
+        this.queue.push(chunk.subarray(remaining));
+        this.bytesRead += remaining;
+        this.observe(chunk.subarray(0, remaining));
+        remaining = 0;
+      } else {
+        this.bytesRead += chunk.length;
+        this.observe(chunk);
+        remaining -= chunk.length;
+      }
     }
   }
 
-  async read(len: number | bigint): Promise<Uint8Array> {
-    const offset = Number(len);
-    await this.ensureBufferFilledToAtLeast(offset);
+  async peek(
+    len: number | bigint,
+    options: OperationOptions = {},
+  ): Promise<Uint8Array> {
+    const count = Number(len);
+    await this.ensureBufferFilledToAtLeast(count, options.signal);
+
+    return this.queue.peek(count);
+  }
+
+  async peekUint8(options: OperationOptions = {}): Promise<number> {
+    const offset = await this.fillContiguous(1, options.signal);
+    return this.valueReader.readUint8(this.queue.head, offset);
+  }
+
+  async peekInt8(options: OperationOptions = {}): Promise<number> {
+    const offset = await this.fillContiguous(1, options.signal);
+    return this.valueReader.readInt8(this.queue.head, offset);
+  }
 
-    const value = this.buffer.slice(
-      this.bufferOffset,
-      this.bufferOffset + offset,
+  async peekUint16(
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ): Promise<number> {
+    const offset = await this.fillContiguous(2, options.signal);
+    return this.valueReader.readUint16(
+      this.queue.head,
+      offset,
+      resolveEndian(endian),
     );
+  }
+
+  async peekInt16(
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ): Promise<number> {
+    const offset = await this.fillContiguous(2, options.signal);
+    return this.valueReader.readInt16(
+      this.queue.head,
+      offset,
+      resolveEndian(endian),
+    );
+  }
 
-    this.bufferOffset += offset;
-    this.bytesRead += offset;
+  async peekUint32(
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ): Promise<number> {
+    const offset = await this.fillContiguous(4, options.signal);
+    return this.valueReader.readUint32(
+      this.queue.head,
+      offset,
+      resolveEndian(endian),
+    );
+  }
 
-    this.trimBuffer();
+  async peekInt32(
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ): Promise<number> {
+    const offset = await this.fillContiguous(4, options.signal);
+    return this.valueReader.readInt32(
+      this.queue.head,
+      offset,
+      resolveEndian(endian),
+    );
+  }
+
+  async peekUint64(
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ): Promise<bigint> {
+    const offset = await this.fillContiguous(8, options.signal);
+    return this.valueReader.readUint64(
+      this.queue.head,
+      offset,
+      resolveEndian(endian),
+    );
+  }
+
+  async peekInt64(
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ): Promise<bigint> {
+    const offset = await this.fillContiguous(8, options.signal);
+    return this.valueReader.readInt64(
+      this.queue.head,
+      offset,
+      resolveEndian(endian),
+    );
+  }
+
+  async readString(
+    len: number | bigint,
+    options: StringEncodingOptions & OperationOptions = {},
+  ): Promise<string> {
+    const offset = this.bytesRead;
+    const data = await this.read(Number(len), options);
+    return decodeString(data, options, offset);
+  }
+
+  /**
+   * Pulls chunks until `delimiter` is buffered and returns its position, or
+   * -1 if the stream (or the readable section) ends first. `slack` extra
+   * bytes are searched past `maxLength` for the caller to check itself.
+   */
+  private async fillUntilDelimiter(
+    delimiter: Uint8Array,
+    maxLength: number,
+    signal: AbortSignal | undefined,
+    slack: number = 0,
+  ): Promise<number> {
+    signal = this.beginOperation(signal);
+
+    const limit = this.readLimit;
+    let searchFrom = 0;
+
+    while (true) {
+      const available = Math.min(this.queue.length, limit);
+      let index = this.queue.indexOf(delimiter, searchFrom);
+      if (index + delimiter.length > limit) {
+        index = -1;
+      }
+
+      const exceeded =
+        index === -1
+          ? available >= maxLength + slack + delimiter.length
+          : index > maxLength + slack;
+      if (exceeded) {
+        throw this.delimiterNotFound(maxLength, available);
+      }
+
+      if (index !== -1) {
+        return index;
+      }
+
+      if (available === limit) {
+        return -1;
+      }
+
+      if (this.queue.length >= this.maxBufferSize) {
+        throw new BufferLimitError(
+          `Delimiter not found within the ${this.maxBufferSize} byte buffer limit`,
+          { offset: this.bytesRead, available },
+        );
+      }
+
+      // A delimiter may straddle the end of what is buffered so far
+      searchFrom = Math.max(0, this.queue.length - delimiter.length + 1);
+
+      const chunk = await this.pullChunk(signal, { offset: this.bytesRead });
+      if (chunk == null) {
+        return -1;
+      }
+
+      this.queue.push(chunk);
+    }
+  }
+
+  async readUntil(
+    delimiter: number | Uint8Array,
+    options: ReadUntilOptions = {},
+  ): Promise<Uint8Array> {
+    const { maxLength = Infinity, includeDelimiter = false } = options;
+    const needle =
+      typeof delimiter === "number" ? Uint8Array.of(delimiter) : delimiter;
+
+    if (needle.length === 0) {
+      throw new RangeError("Delimiter must not be empty");
+    }
+
+    const index = await this.fillUntilDelimiter(
+      needle,
+      maxLength,
+      options.signal,
+    );
+    if (index === -1) {
+      throw new UnexpectedEofError({
+        offset: this.bytesRead,
+        available: Math.min(this.queue.length, this.readLimit),
+      });
+    }
+
+    this.assertRetainable(index + needle.length);
+    const value = this.consume(
+      includeDelimiter ? index + needle.length : index,
+    );
+    if (!includeDelimiter) {
+      this.discardBuffered(needle.length);
+    }
 
     return value;
   }
 
-  async readString(len: number | bigint): Promise<string> {
-    const data = await this.read(Number(len));
-    const textDecoder = new TextDecoder();
-    return textDecoder.decode(data);
+  async readCString(
+    options: Pick<ReadUntilOptions, "maxLength" | "signal"> = {},
+  ): Promise<string> {
+    const data = await this.readUntil(NUL, options);
+    return decodeString(data);
+  }
+
+  /**
+   * Reads a line terminated by `\n` or `\r\n`, without the terminator.
+   * The last line may be unterminated; `null` is returned at end of stream.
+   */
+  async readLine(
+    options: Pick<ReadUntilOptions, "maxLength" | "signal"> = {},
+  ): Promise<string | null> {
+    const { maxLength = Infinity, signal } = options;
+
+    // The CR of a CRLF terminator is not part of the line, so it may be
+    // one byte past maxLength
+    const index = await this.fillUntilDelimiter(
+      Uint8Array.of(LF),
+      maxLength,
+      signal,
+      1,
+    );
+    if (index === -1) {
+      const count = Math.min(this.queue.length, this.readLimit);
+      if (count === 0) {
+        return null;
+      }
+
+      if (count > maxLength) {
+        throw this.delimiterNotFound(maxLength, count);
+      }
+
+      return decodeString(this.consume(count));
+    }
+
+    if (
+      index > maxLength &&
+      this.queue.indexOf(Uint8Array.of(CR), index - 1) !== index - 1
+    ) {
+      throw this.delimiterNotFound(
+        maxLength,
+        Math.min(this.queue.length, this.readLimit),
+      );
+    }
+
+    this.assertRetainable(index + 1);
+    let line = this.consume(index);
+    this.discardBuffered(1);
+
+    if (line.length > 0 && line[line.length - 1] === CR) {
+      line = line.subarray(0, line.length - 1);
+    }
+
+    return decodeString(line);
   }
 
-  async readUint8(): Promise<number> {
-    const buffer = await this.read(1);
-    return this.valueReader.readUint8(buffer);
+  async readUint8(options: OperationOptions = {}): Promise<number> {
+    const offset = await this.fillContiguous(1, options.signal);
+    const value = this.valueReader.readUint8(this.queue.head, offset);
+    this.discardBuffered(1);
+
+    return value;
   }
 
   createDataView(data: Uint8Array): DataView {
-    return new DataView(data.buffer);
+    return new DataView(data.buffer, data.byteOffset, data.byteLength);
   }
 
-  async readInt8(): Promise<number> {
-    const buffer = await this.read(1);
-    return this.valueReader.readInt8(buffer);
+  async readInt8(options: OperationOptions = {}): Promise<number> {
+    const offset = await this.fillContiguous(1, options.signal);
+    const value = this.valueReader.readInt8(this.queue.head, offset);
+    this.discardBuffered(1);
+
+    return value;
   }
 
-  async readUint16(endian: Endian = Endian.Big): Promise<number> {
-    const buffer = await this.read(2);
-    return this.valueReader.readUint16(buffer, endian);
+  async readUint16(
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ): Promise<number> {
+    const offset = await this.fillContiguous(2, options.signal);
+    const value = this.valueReader.readUint16(
+      this.queue.head,
+      offset,
+      resolveEndian(endian),
+    );
+    this.discardBuffered(2);
+
+    return value;
   }
 
-  async readInt16(endian: Endian = Endian.Big): Promise<number> {
-    const buffer = await this.read(2);
-    return this.valueReader.readInt16(buffer, endian);
+  async readInt16(
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ): Promise<number> {
+    const offset = await this.fillContiguous(2, options.signal);
+    const value = this.valueReader.readInt16(
+      this.queue.head,
+      offset,
+      resolveEndian(endian),
+    );
+    this.discardBuffered(2);
+
+    return value;
   }
 
-  async readUint32(endian: Endian = Endian.Big): Promise<number> {
-    const buffer = await this.read(4);
-    return this.valueReader.readUint32(buffer, endian);
+  async readUint32(
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ): Promise<number> {
+    const offset = await this.fillContiguous(4, options.signal);
+    const value = this.valueReader.readUint32(
+      this.queue.head,
+      offset,
+      resolveEndian(endian),
+    );
+    this.discardBuffered(4);
+
+    return value;
   }
 
-  async readInt32(endian: Endian = Endian.Big): Promise<number> {
-    const buffer = await this.read(4);
-    return this.valueReader.readInt32(buffer, endian);
+  async readInt32(
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ): Promise<number> {
+    const offset = await this.fillContiguous(4, options.signal);
+    const value = this.valueReader.readInt32(
+      this.queue.head,
+      offset,
+      resolveEndian(endian),
+    );
+    this.discardBuffered(4);
+
+    return value;
   }
 
-  async readUint64(endian: Endian = Endian.Big): Promise<bigint> {
-    const buffer = await this.read(8);
-    return this.valueReader.readUint64(buffer, endian);
+  async readUint64(
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ): Promise<bigint> {
+    const offset = await this.fillContiguous(8, options.signal);
+    const value = this.valueReader.readUint64(
+      this.queue.head,
+      offset,
+      resolveEndian(endian),
+    );
+    this.discardBuffered(8);
+
+    return value;
   }
 
-  async readInt64(endian: Endian = Endian.Big): Promise<bigint> {
-    const buffer = await this.read(8);
-    return this.valueReader.readInt64(buffer, endian);
+  async readInt64(
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ): Promise<bigint> {
+    const offset = await this.fillContiguous(8, options.signal);
+    const value = this.valueReader.readInt64(
+      this.queue.head,
+      offset,
+      resolveEndian(endian),
+    );
+    this.discardBuffered(8);
+
+    return value;
+  }
+
+  async readFloat16(
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ): Promise<number> {
+    const offset = await this.fillContiguous(2, options.signal);
+    const value = this.valueReader.readFloat16(
+      this.queue.head,
+      offset,
+      resolveEndian(endian),
+    );
+    this.discardBuffered(2);
+
+    return value;
+  }
+
+  async readFloat32(
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ): Promise<number> {
+    const offset = await this.fillContiguous(4, options.signal);
+    const value = this.valueReader.readFloat32(
+      this.queue.head,
+      offset,
+      resolveEndian(endian),
+    );
+    this.discardBuffered(4);
+
+    return value;
+  }
+
+  async readFloat64(
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ): Promise<number> {
+    const offset = await this.fillContiguous(8, options.signal);
+    const value = this.valueReader.readFloat64(
+      this.queue.head,
+      offset,
+      resolveEndian(endian),
+    );
+    this.discardBuffered(8);
+
+    return value;
+  }
+
+  /**
+   * Reads a `byteLength`-byte unsigned integer, such as a 24-bit sample or a
+   * 48-bit MAC address. Returns a `number` up to 6 bytes and a `bigint`
+   * beyond.
+   */
+  async readUintN<N extends number>(
+    byteLength: N,
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ): Promise<IntNValue<N>> {
+    assertByteLength(byteLength);
+    const offset = await this.fillContiguous(byteLength, options.signal);
+    const value = decodeUintN(
+      this.queue.head,
+      offset,
+      byteLength,
+      resolveEndian(endian),
+    );
+    this.discardBuffered(byteLength);
+
+    return value as IntNValue<N>;
+  }
+
+  /** Reads a `byteLength`-byte two's complement integer, as `readUintN` */
+  async readIntN<N extends number>(
+    byteLength: N,
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ): Promise<IntNValue<N>> {
+    assertByteLength(byteLength);
+    const offset = await this.fillContiguous(byteLength, options.signal);
+    const value = decodeIntN(
+      this.queue.head,
+      offset,
+      byteLength,
+      resolveEndian(endian),
+    );
+    this.discardBuffered(byteLength);
+
+    return value as IntNValue<N>;
+  }
+
+  /**
+   * Reads `count` elements of `elementSize` bytes, returned aligned and in
+   * host byte order so a typed array can view them directly. Matching byte
+   * orders need no copy unless the bytes are misaligned.
+   */
+  private async readElements(
+    count: number,
+    elementSize: number,
+    endian: Endian,
+    options: OperationOptions,
+  ): Promise<Uint8Array> {
+    if (!Number.isSafeInteger(count) || count < 0) {
+      throw new RangeError("Count must be a non-negative safe integer");
+    }
+
+    const bytes = await this.read(count * elementSize, options);
+    if (elementSize > 1 && resolveEndian(endian) !== HOST_ENDIAN) {
+      return swapByteOrder(bytes, elementSize);
+    }
+
+    return bytes.byteOffset % elementSize === 0 ? bytes : bytes.slice();
+  }
+
+  async readInt8Array(
+    count: number,
+    options: OperationOptions = {},
+  ): Promise<Int8Array> {
+    const bytes = await this.readElements(count, 1, Endian.Big, options);
+    return new Int8Array(bytes.buffer, bytes.byteOffset, count);
+  }
+
+  async readUint16Array(
+    count: number,
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ): Promise<Uint16Array> {
+    const bytes = await this.readElements(count, 2, endian, options);
+    return new Uint16Array(bytes.buffer, bytes.byteOffset, count);
+  }
+
+  async readInt16Array(
+    count: number,
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ): Promise<Int16Array> {
+    const bytes = await this.readElements(count, 2, endian, options);
+    return new Int16Array(bytes.buffer, bytes.byteOffset, count);
+  }
+
+  async readUint32Array(
+    count: number,
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ): Promise<Uint32Array> {
+    const bytes = await this.readElements(count, 4, endian, options);
+    return new Uint32Array(bytes.buffer, bytes.byteOffset, count);
+  }
+
+  async readInt32Array(
+    count: number,
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ): Promise<Int32Array> {
+    const bytes = await this.readElements(count, 4, endian, options);
+    return new Int32Array(bytes.buffer, bytes.byteOffset, count);
+  }
+
+  async readBigUint64Array(
+    count: number,
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ): Promise<BigUint64Array> {
+    const bytes = await this.readElements(count, 8, endian, options);
+    return new BigUint64Array(bytes.buffer, bytes.byteOffset, count);
+  }
+
+  async readBigInt64Array(
+    count: number,
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ): Promise<BigInt64Array> {
+    const bytes = await this.readElements(count, 8, endian, options);
+    return new BigInt64Array(bytes.buffer, bytes.byteOffset, count);
+  }
+
+  async readFloat32Array(
+    count: number,
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ): Promise<Float32Array> {
+    const bytes = await this.readElements(count, 4, endian, options);
+    return new Float32Array(bytes.buffer, bytes.byteOffset, count);
+  }
+
+  async readFloat64Array(
+    count: number,
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ): Promise<Float64Array> {
+    const bytes = await this.readElements(count, 8, endian, options);
+    return new Float64Array(bytes.buffer, bytes.byteOffset, count);
+  }
+
+  async readVarUint(options: OperationOptions = {}): Promise<number> {
+    return this.readLeb128(false, false, options.signal);
+  }
+
+  async readVarUintBigInt(options: OperationOptions = {}): Promise<bigint> {
+    return this.readLeb128(false, true, options.signal);
+  }
+
+  async readVarInt(options: OperationOptions = {}): Promise<number> {
+    return this.readLeb128(true, false, options.signal);
+  }
+
+  async readVarIntBigInt(options: OperationOptions = {}): Promise<bigint> {
+    return this.readLeb128(true, true, options.signal);
+  }
+
+  async readZigZag(options: OperationOptions = {}): Promise<number> {
+    const value = await this.readVarUint(options);
+    return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+  }
+
+  async readZigZagBigInt(options: OperationOptions = {}): Promise<bigint> {
+    const value = await this.readVarUintBigInt(options);
+    return (value >> 1n) ^ -(value & 1n);
+  }
+
+  private async readLeb128(
+    signed: boolean,
+    asBigInt: false,
+    signal: AbortSignal | undefined,
+  ): Promise<number>;
+  private async readLeb128(
+    signed: boolean,
+    asBigInt: true,
+    signal: AbortSignal | undefined,
+  ): Promise<bigint>;
+  private async readLeb128(
+    signed: boolean,
+    asBigInt: boolean,
+    signal: AbortSignal | undefined,
+  ): Promise<number | bigint> {
+    // Bytes are peeked and only consumed once the whole varint is decoded, so
+    // a failed or aborted read leaves the position at its start
+    const offset = this.bytesRead;
+    let length = Math.min(this.queue.length, this.readLimit, MAX_VARINT_BYTES);
+
+    while (true) {
+      const bytes = await this.peek(Math.max(length, 1), { signal });
+      const result = asBigInt
+        ? decodeLeb128(bytes, signed, true, offset)
+        : decodeLeb128(bytes, signed, false, offset);
+      if (result != null) {
+        this.discardBuffered(result.length);
+        return result.value;
+      }
+
+      length = bytes.length + 1;
+    }
+  }
+
+  async readUntilEof(options: ReadUntilEofOptions = {}): Promise<Uint8Array> {
+    const signal = this.beginOperation(options.signal);
+    const maxBytes = Math.min(options.maxBytes ?? Infinity, this.maxBufferSize);
+
+    if (this.readLimit !== Infinity) {
+      if (this.readLimit > maxBytes) {
+        throw this.limitExceeded(this.readLimit, maxBytes);
+      }
+
+      return this.read(this.readLimit, options);
+    }
+
+    // Chunks are queued until the end so an abort loses nothing
+    let chunk: Uint8Array | null;
+    while (
+      this.queue.length <= maxBytes &&
+      (chunk = await this.pullChunk(signal, {
+        offset: this.bytesRead,
+        available: this.queue.length,
+      })) != null
+    ) {
+      this.queue.push(chunk);
+    }
+
+    if (this.queue.length > maxBytes) {
+      throw this.limitExceeded(this.queue.length, maxBytes);
+    }
+
+    return this.consume(this.queue.length);
+  }
+
+  /**
+   * Yields the remaining bytes as they arrive, starting with whatever is
+   * already buffered. Each chunk is consumed when it is yielded.
+   */
+  async *chunks(
+    options: OperationOptions = {},
+  ): AsyncGenerator<Uint8Array, void, undefined> {
+    while (this.readLimit > 0) {
+      const signal = this.beginOperation(options.signal);
+
+      if (this.queue.length === 0) {
+        const chunk = await this.pullChunk(signal, { offset: this.bytesRead });
+        if (chunk == null) {
+          return;
+        }
+
+        this.queue.push(chunk);
+        continue;
+      }
+
+      this.assertRetainable(1);
+      const chunk = this.queue.shift(
+        Math.min(this.readLimit, this.retainableLength),
+      );
+      this.bytesRead += chunk.length;
+      this.observe(chunk);
+
+      yield chunk;
+    }
+  }
+
+  [Symbol.asyncIterator](): AsyncGenerator<Uint8Array, void, undefined> {
+    return this.chunks();
   }
 
-  async readUntilEof(): Promise<Uint8Array> {
-    const chunks: Uint8Array[] = [this.buffer.slice(this.bufferOffset)];
+  /**
+   * Calls `parse` for one record at a time until the stream ends cleanly
+   * between records. An end of stream inside a record still throws.
+   */
+  async *records<T>(
+    parse: (reader: this) => T | Promise<T>,
+    options: OperationOptions = {},
+  ): AsyncGenerator<T, void, undefined> {
+    while (!(await this.isAtEnd(options.signal))) {
+      const offset = this.bytesRead;
+      const record = await parse(this);
+      if (this.bytesRead === offset) {
+        throw new ConduitError("Record parser did not consume any bytes", {
+          offset,
+        });
+      }
+
+      yield record;
+    }
+  }
 
-    let done = false;
-    while (!done) {
-      const result = await this.reader.read();
+  private async isAtEnd(signal: AbortSignal | undefined): Promise<boolean> {
+    signal = this.beginOperation(signal);
+    if (this.readLimit === 0) {
+      return true;
+    }
 
-      if (result.value != null) {
-        chunks.push(result.value);
+    while (this.queue.length === 0) {
+      const chunk = await this.pullChunk(signal, { offset: this.bytesRead });
+      if (chunk == null) {
+        return true;
       }
 
-      done = result.done;
+      this.queue.push(chunk);
     }
 
-    const length = chunks.reduce((acc, chunk) => acc + chunk.length, 0);
-    const buffer = new Uint8Array(length);
-    let offset = 0;
+    return false;
+  }
+
+  /**
+   * Returns a view that shares this reader's buffer and position but defaults
+   * to `endian` for typed reads.
+   */
+  withEndian(endian: Endian): StreamReader {
+    return new StreamReader(this, undefined, { endian });
+  }
 
-    for (const chunk of chunks) {
-      buffer.set(chunk, offset);
-      offset += chunk.length;
+  /**
+   * Returns a reader over the next `length` bytes that reports end of stream
+   * at the end of that section. Reads through it advance this reader too.
+   */
+  limit(length: number | bigint): LimitedReader {
+    const count = Number(length);
+    if (!Number.isSafeInteger(count) || count < 0) {
+      throw new RangeError("Limit must be a non-negative safe integer");
     }
 
-    // Update bytesRead to reflect the total bytes consumed
-    this.bytesRead += length;
-    this.bufferOffset = this.buffer.length;
+    if (count > this.readLimit) {
+      throw new RangeOverflowError(
+        `Limit of ${count} bytes exceeds the ${this.readLimit} bytes remaining`,
+        {
+          offset: this.bytesRead,
+          requested: count,
+          available: this.readLimit,
+        },
+      );
+    }
 
-    return buffer;
+    return new LimitedReader(this, count);
   }
 
+  /**
+   * Marks the current position so `reset()` can return to it. Bytes consumed
+   * from here on are kept in memory until the mark is released; closing the
+   * reader or seeking outside the buffer releases every mark.
+   */
+  mark(options: MarkOptions = {}): ReaderMark {
+    this.assertOpen();
+
+    const { maxRetained = Infinity } = options;
+    if (
+      maxRetained !== Infinity &&
+      (!Number.isSafeInteger(maxRetained) || maxRetained < 0)
+    ) {
+      throw new RangeError("Retention limit must be a non-negative integer");
+    }
+
+    const mark: MarkState = { position: this.bytesRead, maxRetained };
+    this.state.marks.push(mark);
+
+    return mark;
+  }
+
+  /**
+   * Rewinds to `mark`, so the bytes consumed since are read again. The mark
+   * stays active; marks set after it are released.
+   */
+  reset(mark: ReaderMark): void {
+    this.assertOpen();
+
+    const { marks, retained } = this.state;
+    const index = marks.indexOf(mark as MarkState);
+    if (index === -1) {
+      throw new ConduitError("Mark has been released", {
+        offset: this.bytesRead,
+      });
+    }
+
+    marks.length = index + 1;
+
+    const kept = retained.take(mark.position - marks[0].position);
+    this.queue.unshift(retained.drain());
+    retained.push(kept);
+    this.bytesRead = mark.position;
+  }
+
+  /** Stops retaining bytes for `mark`; releasing it again does nothing */
+  release(mark: ReaderMark): void {
+    const { marks, retained } = this.state;
+    const index = marks.indexOf(mark as MarkState);
+    if (index === -1) {
+      return;
+    }
+
+    marks.splice(index, 1);
+    if (marks.length === 0) {
+      retained.drain();
+    } else if (index === 0) {
+      retained.discard(marks[0].position - mark.position);
+    }
+  }
+
+  private releaseAllMarks(): void {
+    this.state.marks.length = 0;
+    this.state.retained.drain();
+  }
+
+  // Throws before consuming `count` bytes would exceed a mark's retention
+  private assertRetainable(count: number): void {
+    for (const mark of this.state.marks) {
+      const available = mark.position + mark.maxRetained - this.bytesRead;
+      if (count > available) {
+        throw new BufferLimitError(
+          `Mark at offset ${mark.position} may retain at most ${mark.maxRetained} bytes`,
+          { offset: this.bytesRead, requested: count, available },
+        );
+      }
+    }
+  }
+
+  // Bytes that can be consumed without exceeding a mark's retention
+  private get retainableLength(): number {
+    let length = Infinity;
+    for (const mark of this.state.marks) {
+      length = Math.min(
+        length,
+        mark.position + mark.maxRetained - this.bytesRead,
+      );
+    }
+
+    return length;
+  }
+
+  protected discardBuffered(count: number): void {
+    if (this.state.observers.length > 0 || this.state.marks.length > 0) {
+      this.consume(count);
+      return;
+    }
+
+    this.queue.discard(count);
+    this.bytesRead += count;
+  }
+
+  /**
+   * Registers `observer` to be called with every byte consumed through this
+   * reader or any view sharing its position. The bytes may be a view of the
+   * buffer and are only valid during the call.
+   */
+  protected addObserver(observer: (bytes: Uint8Array) => void): void {
+    this.state.observers.push(observer);
+  }
+
+  protected removeObserver(observer: (bytes: Uint8Array) => void): void {
+    const index = this.state.observers.indexOf(observer);
+    if (index !== -1) {
+      this.state.observers.splice(index, 1);
+    }
+  }
+
+  // Takes `count` buffered bytes and advances the position
+  private consume(count: number): Uint8Array {
+    this.assertRetainable(count);
+
+    const value = this.queue.take(count);
+    this.bytesRead += count;
+    this.observe(value);
+
+    return value;
+  }
+
+  private delimiterNotFound(
+    maxLength: number,
+    available: number,
+  ): RangeOverflowError {
+    return new RangeOverflowError(
+      `Delimiter not found within ${maxLength} bytes`,
+      { offset: this.bytesRead, available },
+    );
+  }
+
+  private limitExceeded(requested: number, limit: number): BufferLimitError {
+    return new BufferLimitError(
+      `Reading ${requested} bytes exceeds the limit of ${limit} bytes`,
+      { offset: this.bytesRead, requested, available: limit },
+    );
+  }
+
+  private progress(bytes: number): ReadProgress {
+    return { bytes, bytesRead: this.bytesRead, buffered: this.queue.length };
+  }
+
+  private observe(bytes: Uint8Array): void {
+    const { observers, marks } = this.state;
+    if (marks.length > 0) {
+      // Copied, as the caller may modify what it was given
+      this.state.retained.push(bytes.slice());
+    }
+
+    if (observers.length === 0) {
+      return;
+    }
+
+    for (const observer of observers) {
+      observer(bytes);
+    }
+  }
+
+  /**
+   * Stops reading and releases the lock on the stream, which is left open
+   * for another consumer. Views share the lock, so closing a view closes the
+   * reader it was created from too.
+   */
   async close(): Promise<void> {
-    this.reader.releaseLock();
+    this.state.closed = true;
+    this.releaseAllMarks();
+    this.state.reader.releaseLock();
+  }
+
+  /**
+   * Closes the reader and cancels the source stream with `reason`, including
+   * when called through a view. Does nothing if the reader is already closed.
+   */
+  async cancel(reason?: unknown): Promise<void> {
+    if (this.state.closed) {
+      return;
+    }
+
+    this.state.closed = true;
+    this.queue.drain();
+    this.releaseAllMarks();
+    await this.state.reader.cancel(reason);
+    this.state.reader.releaseLock();
+  }
+
+  /**
+   * Cancels the source stream unless the reader is already closed. Disposing
+   * a view only releases the view, through `releaseView()`, and leaves the
+   * source to the reader it was created from.
+   */
+  async [Symbol.asyncDispose](): Promise<void> {
+    if (this.isView) {
+      await this.releaseView();
+      return;
+    }
+
+    await this.cancel();
+  }
+
+  /** Called when a view is disposed; plain views hold nothing to release */
+  protected async releaseView(): Promise<void> {}
+}
+
+export class LimitedReader extends StreamReader {
+  constructor(
+    parent: StreamReader,
+    length: number,
+    options: StreamReaderOptions = {},
+  ) {
+    super(parent, undefined, options);
+    this.end = this.bytesRead + length;
+  }
+
+  /** Bytes left before the end of the section */
+  get remaining(): number {
+    return this.readLimit;
+  }
+
+  override withEndian(endian: Endian): LimitedReader {
+    return new LimitedReader(this, this.remaining, { endian });
+  }
+
+  /**
+   * Skips whatever the section still holds, leaving the parent reader
+   * positioned right after it.
+   */
+  async skipRemaining(options: OperationOptions = {}): Promise<void> {
+    await this.skip(this.remaining, options);
+  }
+
+  /** Disposing a section skips what it still holds, as `skipRemaining()` */
+  protected override async releaseView(): Promise<void> {
+    if (!this.closed) {
+      await this.skipRemaining();
+    }
   }
 }
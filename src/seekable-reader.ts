@@ -0,0 +1,142 @@
+import { RangeOverflowError } from "./errors";
+import { StreamReader, type StreamReaderOptions } from "./reader";
+import type { ValueReader } from "./shared";
+
+const DEFAULT_PAGE_SIZE = 64 * 1024;
+const DEFAULT_MAX_CACHED_PAGES = 16;
+
+export interface SeekableReaderOptions extends StreamReaderOptions {
+  /** Size of the ranges fetched from the blob; defaults to 64 KiB */
+  pageSize?: number;
+  /** Number of pages kept in memory; defaults to 16 */
+  maxCachedPages?: number;
+}
+
+/**
+ * Fetches fixed-size pages of a blob on demand, keeping the most recently
+ * used ones.
+ */
+class PageCache {
+  private readonly pages = new Map<number, Promise<Uint8Array>>();
+
+  constructor(
+    private readonly blob: Blob,
+    readonly pageSize: number,
+    private readonly maxPages: number,
+  ) {}
+
+  get(index: number): Promise<Uint8Array> {
+    let page = this.pages.get(index);
+    if (page != null) {
+      // Re-inserting moves the page to the most recently used end
+      this.pages.delete(index);
+    } else {
+      page = this.fetch(index);
+      page.catch(() => this.pages.delete(index));
+    }
+
+    this.pages.set(index, page);
+    if (this.pages.size > this.maxPages) {
+      this.pages.delete(this.pages.keys().next().value!);
+    }
+
+    return page;
+  }
+
+  private async fetch(index: number): Promise<Uint8Array> {
+    const start = index * this.pageSize;
+    const end = Math.min(start + this.pageSize, this.blob.size);
+    return new Uint8Array(await this.blob.slice(start, end).arrayBuffer());
+  }
+
+  /**
+   * Creates a stream of the blob's bytes from `position` onwards. Pages are
+   * only fetched as the stream is read.
+   */
+  createStream(position: number): ReadableStream<Uint8Array> {
+    return new ReadableStream(
+      {
+        pull: async (controller) => {
+          if (position >= this.blob.size) {
+            controller.close();
+            return;
+          }
+
+          const index = Math.floor(position / this.pageSize);
+          const page = await this.get(index);
+
+          // Copy so callers can never modify a cached page
+          controller.enqueue(page.slice(position - index * this.pageSize));
+          position = (index + 1) * this.pageSize;
+        },
+      },
+      { highWaterMark: 0 },
+    );
+  }
+}
+
+/**
+ * A StreamReader with random access over a `Blob` or `File`.
+ *
+ * Byte ranges are fetched lazily with `blob.slice()` and kept in a bounded
+ * page cache. `bytesRead` is the absolute position in the blob.
+ */
+export class SeekableReader extends StreamReader {
+  private readonly pages: PageCache;
+
+  constructor(
+    public readonly blob: Blob,
+    valueReader?: ValueReader,
+    options: SeekableReaderOptions = {},
+  ) {
+    const {
+      pageSize = DEFAULT_PAGE_SIZE,
+      maxCachedPages = DEFAULT_MAX_CACHED_PAGES,
+    } = options;
+
+    if (!Number.isSafeInteger(pageSize) || pageSize <= 0) {
+      throw new RangeError("Page size must be a positive integer");
+    }
+
+    if (!Number.isSafeInteger(maxCachedPages) || maxCachedPages <= 0) {
+      throw new RangeError("Cached page count must be a positive integer");
+    }
+
+    const pages = new PageCache(blob, pageSize, maxCachedPages);
+    super(pages.createStream(0), valueReader, options);
+    this.pages = pages;
+  }
+
+  get size(): number {
+    return this.blob.size;
+  }
+
+  tell(): number {
+    return this.bytesRead;
+  }
+
+  seek(offset: number | bigint): void {
+    this.assertOpen();
+
+    const position = Number(offset);
+    if (!Number.isSafeInteger(position) || position < 0) {
+      throw new RangeError("Offset must be a non-negative safe integer");
+    }
+
+    if (position > this.size) {
+      throw new RangeOverflowError(
+        `Offset ${position} is beyond the end of the ${this.size} byte source`,
+        { offset: this.bytesRead, requested: position, available: this.size },
+      );
+    }
+
+    // Seeking forward within the buffered bytes needs no new fetch
+    const ahead = position - this.bytesRead;
+    if (ahead >= 0 && ahead <= this.bufferedLength) {
+      this.discardBuffered(ahead);
+      return;
+    }
+
+    this.replaceSource(this.pages.createStream(position), position);
+  }
+}
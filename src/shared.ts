@@ -1,15 +1,140 @@
+import type { StringEncodingOptions } from "./encoding";
+
 export enum Endian {
   Little,
   Big,
+  /** The host's byte order, resolved to `Little` or `Big` when used */
+  Native,
+}
+
+export enum BitOrder {
+  MsbFirst,
+  LsbFirst,
 }
 
+/**
+ * Decodes fixed-size values from `buf` starting at `offset`, so callers can
+ * decode straight out of a larger buffer without slicing it per value.
+ * Callers make sure the value's bytes lie within `buf`.
+ */
 export interface ValueReader {
-  readInt8(buf: Uint8Array): number;
-  readInt16(buf: Uint8Array, endian: Endian): number;
-  readInt32(buf: Uint8Array, endian: Endian): number;
-  readInt64(buf: Uint8Array, endian: Endian): bigint;
-  readUint8(buf: Uint8Array): number;
-  readUint16(buf: Uint8Array, endian: Endian): number;
-  readUint32(buf: Uint8Array, endian: Endian): number;
-  readUint64(buf: Uint8Array, endian: Endian): bigint;
+  readInt8(buf: Uint8Array, offset: number): number;
+  readInt16(buf: Uint8Array, offset: number, endian: Endian): number;
+  readInt32(buf: Uint8Array, offset: number, endian: Endian): number;
+  readInt64(buf: Uint8Array, offset: number, endian: Endian): bigint;
+  readUint8(buf: Uint8Array, offset: number): number;
+  readUint16(buf: Uint8Array, offset: number, endian: Endian): number;
+  readUint32(buf: Uint8Array, offset: number, endian: Endian): number;
+  readUint64(buf: Uint8Array, offset: number, endian: Endian): bigint;
+  readFloat16(buf: Uint8Array, offset: number, endian: Endian): number;
+  readFloat32(buf: Uint8Array, offset: number, endian: Endian): number;
+  readFloat64(buf: Uint8Array, offset: number, endian: Endian): number;
+}
+
+export interface OperationOptions {
+  /** Rejects the operation with an `AbortError` once aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Accumulates a checksum or hash over bytes fed to it in any number of
+ * pieces.
+ */
+export interface Checksum<T = number> {
+  update(data: Uint8Array): void;
+  /** Result over every byte since construction or the last `reset()` */
+  digest(): T;
+  reset(): void;
+}
+
+export type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Result of reading an `N`-byte integer: a `number` up to 6 bytes, where it
+ * is always exact, and a `bigint` beyond.
+ */
+export type IntNValue<N extends number> = number extends N
+  ? number | bigint
+  : N extends 1 | 2 | 3 | 4 | 5 | 6
+    ? number
+    : bigint;
+
+/**
+ * The reading API shared by `StreamReader` and `BufferReader`, so a parser
+ * that awaits every call works with either.
+ */
+export interface BinaryReader {
+  readonly bytesRead: number;
+  readonly endian: Endian.Little | Endian.Big;
+
+  read(len: number | bigint): MaybePromise<Uint8Array>;
+  peek(len: number | bigint): MaybePromise<Uint8Array>;
+  skip(len: number | bigint): MaybePromise<void>;
+  readUntilEof(options?: { maxBytes?: number }): MaybePromise<Uint8Array>;
+
+  readString(
+    len: number | bigint,
+    options?: StringEncodingOptions,
+  ): MaybePromise<string>;
+  readUntil(
+    delimiter: number | Uint8Array,
+    options?: { maxLength?: number; includeDelimiter?: boolean },
+  ): MaybePromise<Uint8Array>;
+  readCString(options?: { maxLength?: number }): MaybePromise<string>;
+  readLine(options?: { maxLength?: number }): MaybePromise<string | null>;
+
+  readUint8(): MaybePromise<number>;
+  readInt8(): MaybePromise<number>;
+  readUint16(endian?: Endian): MaybePromise<number>;
+  readInt16(endian?: Endian): MaybePromise<number>;
+  readUint32(endian?: Endian): MaybePromise<number>;
+  readInt32(endian?: Endian): MaybePromise<number>;
+  readUint64(endian?: Endian): MaybePromise<bigint>;
+  readInt64(endian?: Endian): MaybePromise<bigint>;
+  readFloat16(endian?: Endian): MaybePromise<number>;
+  readFloat32(endian?: Endian): MaybePromise<number>;
+  readFloat64(endian?: Endian): MaybePromise<number>;
+  readUintN<N extends number>(
+    byteLength: N,
+    endian?: Endian,
+  ): MaybePromise<IntNValue<N>>;
+  readIntN<N extends number>(
+    byteLength: N,
+    endian?: Endian,
+  ): MaybePromise<IntNValue<N>>;
+
+  peekUint8(): MaybePromise<number>;
+  peekInt8(): MaybePromise<number>;
+  peekUint16(endian?: Endian): MaybePromise<number>;
+  peekInt16(endian?: Endian): MaybePromise<number>;
+  peekUint32(endian?: Endian): MaybePromise<number>;
+  peekInt32(endian?: Endian): MaybePromise<number>;
+  peekUint64(endian?: Endian): MaybePromise<bigint>;
+  peekInt64(endian?: Endian): MaybePromise<bigint>;
+
+  readInt8Array(count: number): MaybePromise<Int8Array>;
+  readUint16Array(count: number, endian?: Endian): MaybePromise<Uint16Array>;
+  readInt16Array(count: number, endian?: Endian): MaybePromise<Int16Array>;
+  readUint32Array(count: number, endian?: Endian): MaybePromise<Uint32Array>;
+  readInt32Array(count: number, endian?: Endian): MaybePromise<Int32Array>;
+  readBigUint64Array(
+    count: number,
+    endian?: Endian,
+  ): MaybePromise<BigUint64Array>;
+  readBigInt64Array(
+    count: number,
+    endian?: Endian,
+  ): MaybePromise<BigInt64Array>;
+  readFloat32Array(count: number, endian?: Endian): MaybePromise<Float32Array>;
+  readFloat64Array(count: number, endian?: Endian): MaybePromise<Float64Array>;
+
+  readVarUint(): MaybePromise<number>;
+  readVarUintBigInt(): MaybePromise<bigint>;
+  readVarInt(): MaybePromise<number>;
+  readVarIntBigInt(): MaybePromise<bigint>;
+  readZigZag(): MaybePromise<number>;
+  readZigZagBigInt(): MaybePromise<bigint>;
+
+  withEndian(endian: Endian): BinaryReader;
+  limit(length: number | bigint): BinaryReader;
 }
@@ -0,0 +1,41 @@
+import { uint8ArrayFromBufferSource } from "./buffer";
+
+export function createBufferStream(
+  chunks: Iterable<BufferSource>,
+): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(uint8ArrayFromBufferSource(chunk));
+      }
+      controller.close();
+    },
+  });
+}
+
+/**
+ * Wraps an iterable in a stream that pulls one chunk at a time; cancelling
+ * the stream returns the iterator.
+ */
+export function createIterableStream(
+  iterable: AsyncIterable<BufferSource> | Iterable<BufferSource>,
+): ReadableStream<Uint8Array> {
+  const iterator =
+    Symbol.asyncIterator in iterable
+      ? iterable[Symbol.asyncIterator]()
+      : iterable[Symbol.iterator]();
+
+  return new ReadableStream({
+    async pull(controller) {
+      const { done, value } = await iterator.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(uint8ArrayFromBufferSource(value));
+      }
+    },
+    async cancel(reason) {
+      await iterator.return?.(reason);
+    },
+  });
+}
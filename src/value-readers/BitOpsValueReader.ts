@@ -1,17 +1,27 @@
 import type { ValueReader } from "../shared";
 import { Endian } from "../shared";
+import { float16BitsToNumber } from "../float16";
 
 export default class BitOpsValueReader implements ValueReader {
-  bufferToUnsignedNumber(buffer: Uint8Array, endian: Endian): number {
+  /**
+   * Reads `length` bytes starting at `offset` as an unsigned integer of up to
+   * 32 bits. Defaults to the whole buffer.
+   */
+  bufferToUnsignedNumber(
+    buffer: Uint8Array,
+    endian: Endian,
+    offset: number = 0,
+    length: number = buffer.length - offset,
+  ): number {
     let result = 0;
 
     if (endian === Endian.Little) {
-      for (let i = 0; i < buffer.length; i++) {
-        result |= buffer[i] << (i * 8);
+      for (let i = 0; i < length; i++) {
+        result |= buffer[offset + i] << (i * 8);
       }
     } else {
-      for (let i = 0; i < buffer.length; i++) {
-        result = (result << 8) | buffer[i];
+      for (let i = 0; i < length; i++) {
+        result = (result << 8) | buffer[offset + i];
       }
     }
 
@@ -29,62 +39,137 @@ export default class BitOpsValueReader implements ValueReader {
     return ((u & mask) << shift) >> shift;
   }
 
-  bufferToUnsignedBigInt(buffer: Uint8Array, endian: Endian): bigint {
+  /**
+   * Reads `length` bytes starting at `offset` as an unsigned integer of any
+   * size. Defaults to the whole buffer.
+   */
+  bufferToUnsignedBigInt(
+    buffer: Uint8Array,
+    endian: Endian,
+    offset: number = 0,
+    length: number = buffer.length - offset,
+  ): bigint {
     const CHUNK_SIZE = 0x4;
     let result = 0n;
 
     if (endian === Endian.Big) {
-      for (let i = 0; i < buffer.length; i += CHUNK_SIZE) {
-        const slice = buffer.slice(i, i + CHUNK_SIZE);
-        const part = this.bufferToUnsignedNumber(slice, endian);
-        result = (result << BigInt(slice.length * 8)) | BigInt(part);
+      for (let i = 0; i < length; i += CHUNK_SIZE) {
+        const size = Math.min(CHUNK_SIZE, length - i);
+        const part = this.bufferToUnsignedNumber(
+          buffer,
+          endian,
+          offset + i,
+          size,
+        );
+        result = (result << BigInt(size * 8)) | BigInt(part);
       }
     } else {
       let shift = 0n;
-      for (let i = 0; i < buffer.length; i += CHUNK_SIZE) {
-        const slice = buffer.slice(i, i + CHUNK_SIZE);
-        const part = this.bufferToUnsignedNumber(slice, endian);
+      for (let i = 0; i < length; i += CHUNK_SIZE) {
+        const size = Math.min(CHUNK_SIZE, length - i);
+        const part = this.bufferToUnsignedNumber(
+          buffer,
+          endian,
+          offset + i,
+          size,
+        );
         result |= BigInt(part) << shift;
-        shift += BigInt(slice.length * 8);
+        shift += BigInt(size * 8);
       }
     }
 
     return result;
   }
 
-  readUint8(buf: Uint8Array): number {
-    return buf[0];
+  readUint8(buf: Uint8Array, offset: number): number {
+    return buf[offset];
   }
 
-  readUint16(buf: Uint8Array, endian: Endian): number {
-    return this.bufferToUnsignedNumber(buf, endian);
+  readUint16(buf: Uint8Array, offset: number, endian: Endian): number {
+    return this.bufferToUnsignedNumber(buf, endian, offset, 2);
   }
 
-  readUint32(buf: Uint8Array, endian: Endian): number {
-    return this.bufferToUnsignedNumber(buf, endian);
+  readUint32(buf: Uint8Array, offset: number, endian: Endian): number {
+    return this.bufferToUnsignedNumber(buf, endian, offset, 4);
   }
 
-  readUint64(buf: Uint8Array, endian: Endian): bigint {
-    return this.bufferToUnsignedBigInt(buf, endian);
+  readUint64(buf: Uint8Array, offset: number, endian: Endian): bigint {
+    return this.bufferToUnsignedBigInt(buf, endian, offset, 8);
   }
 
-  readInt8(buf: Uint8Array): number {
-    return this.toSignedNumber(buf[0], 8);
+  readInt8(buf: Uint8Array, offset: number): number {
+    return this.toSignedNumber(buf[offset], 8);
   }
 
-  readInt16(buf: Uint8Array, endian: Endian): number {
-    return this.toSignedNumber(this.bufferToUnsignedNumber(buf, endian), 16);
+  readInt16(buf: Uint8Array, offset: number, endian: Endian): number {
+    return this.toSignedNumber(
+      this.bufferToUnsignedNumber(buf, endian, offset, 2),
+      16,
+    );
   }
 
-  readInt32(buf: Uint8Array, endian: Endian): number {
-    return this.readUint32(buf, endian) | 0;
+  readInt32(buf: Uint8Array, offset: number, endian: Endian): number {
+    return this.readUint32(buf, offset, endian) | 0;
   }
 
-  readInt64(buf: Uint8Array, endian: Endian): bigint {
-    const u = this.bufferToUnsignedBigInt(buf, endian);
+  readInt64(buf: Uint8Array, offset: number, endian: Endian): bigint {
+    const u = this.bufferToUnsignedBigInt(buf, endian, offset, 8);
     const sign = 1n << 63n;
     const mask = (1n << 64n) - 1n;
     const ui = u & mask;
     return (ui & sign) !== 0n ? ui - (1n << 64n) : ui;
   }
+
+  readFloat16(buf: Uint8Array, offset: number, endian: Endian): number {
+    return float16BitsToNumber(
+      this.bufferToUnsignedNumber(buf, endian, offset, 2),
+    );
+  }
+
+  readFloat32(buf: Uint8Array, offset: number, endian: Endian): number {
+    const bits = this.bufferToUnsignedNumber(buf, endian, offset, 4);
+    const sign = bits >>> 31 ? -1 : 1;
+    const exponent = (bits >>> 23) & 0xff;
+    const mantissa = bits & 0x7fffff;
+
+    if (exponent === 0) {
+      return sign * mantissa * 2 ** -149;
+    }
+
+    if (exponent === 0xff) {
+      return mantissa === 0 ? sign * Infinity : NaN;
+    }
+
+    return sign * (1 + mantissa / 0x800000) * 2 ** (exponent - 127);
+  }
+
+  readFloat64(buf: Uint8Array, offset: number, endian: Endian): number {
+    const isBig = endian === Endian.Big;
+    const hi = this.bufferToUnsignedNumber(
+      buf,
+      endian,
+      offset + (isBig ? 0 : 4),
+      4,
+    );
+    const lo = this.bufferToUnsignedNumber(
+      buf,
+      endian,
+      offset + (isBig ? 4 : 0),
+      4,
+    );
+
+    const sign = hi >>> 31 ? -1 : 1;
+    const exponent = (hi >>> 20) & 0x7ff;
+    const mantissa = (hi & 0xfffff) * 2 ** 32 + lo;
+
+    if (exponent === 0) {
+      return sign * mantissa * 2 ** -1074;
+    }
+
+    if (exponent === 0x7ff) {
+      return mantissa === 0 ? sign * Infinity : NaN;
+    }
+
+    return sign * (1 + mantissa / 2 ** 52) * 2 ** (exponent - 1023);
+  }
 }
@@ -1,51 +1,96 @@
 import type { ValueReader } from "../shared";
 import { Endian } from "../shared";
+import { float16BitsToNumber, hasNativeFloat16 } from "../float16";
 
 export default class DataViewValueReader implements ValueReader {
-  private scratchBuf = new ArrayBuffer(8);
-  private scratchDataView = new DataView(this.scratchBuf);
+  // Consecutive reads usually come from the same buffer, so its DataView is
+  // kept until a different buffer is passed
+  private cachedBuffer?: ArrayBufferLike;
+  private cachedDataView?: DataView;
 
-  private loadBuffer(buf: Uint8Array): void {
-    new Uint8Array(this.scratchBuf).set(buf);
+  private dataView(buf: Uint8Array): DataView {
+    if (buf.buffer !== this.cachedBuffer) {
+      this.cachedBuffer = buf.buffer;
+      this.cachedDataView = new DataView(buf.buffer);
+    }
+
+    return this.cachedDataView!;
+  }
+
+  readUint8(buf: Uint8Array, offset: number): number {
+    return this.dataView(buf).getUint8(buf.byteOffset + offset);
+  }
+
+  readInt8(buf: Uint8Array, offset: number): number {
+    return this.dataView(buf).getInt8(buf.byteOffset + offset);
   }
 
-  readUint8(buf: Uint8Array): number {
-    this.loadBuffer(buf);
-    return this.scratchDataView.getUint8(0);
+  readUint16(buf: Uint8Array, offset: number, endian: Endian): number {
+    return this.dataView(buf).getUint16(
+      buf.byteOffset + offset,
+      endian === Endian.Little,
+    );
   }
 
-  readInt8(buf: Uint8Array): number {
-    this.loadBuffer(buf);
-    return this.scratchDataView.getInt8(0);
+  readInt16(buf: Uint8Array, offset: number, endian: Endian): number {
+    return this.dataView(buf).getInt16(
+      buf.byteOffset + offset,
+      endian === Endian.Little,
+    );
   }
 
-  readUint16(buf: Uint8Array, endian: Endian): number {
-    this.loadBuffer(buf);
-    return this.scratchDataView.getUint16(0, endian === Endian.Little);
+  readUint32(buf: Uint8Array, offset: number, endian: Endian): number {
+    return this.dataView(buf).getUint32(
+      buf.byteOffset + offset,
+      endian === Endian.Little,
+    );
   }
 
-  readInt16(buf: Uint8Array, endian: Endian): number {
-    this.loadBuffer(buf);
-    return this.scratchDataView.getInt16(0, endian === Endian.Little);
+  readInt32(buf: Uint8Array, offset: number, endian: Endian): number {
+    return this.dataView(buf).getInt32(
+      buf.byteOffset + offset,
+      endian === Endian.Little,
+    );
   }
 
-  readUint32(buf: Uint8Array, endian: Endian): number {
-    this.loadBuffer(buf);
-    return this.scratchDataView.getUint32(0, endian === Endian.Little);
+  readUint64(buf: Uint8Array, offset: number, endian: Endian): bigint {
+    return this.dataView(buf).getBigUint64(
+      buf.byteOffset + offset,
+      endian === Endian.Little,
+    );
   }
 
-  readInt32(buf: Uint8Array, endian: Endian): number {
-    this.loadBuffer(buf);
-    return this.scratchDataView.getInt32(0, endian === Endian.Little);
+  readInt64(buf: Uint8Array, offset: number, endian: Endian): bigint {
+    return this.dataView(buf).getBigInt64(
+      buf.byteOffset + offset,
+      endian === Endian.Little,
+    );
+  }
+
+  readFloat16(buf: Uint8Array, offset: number, endian: Endian): number {
+    const dataView = this.dataView(buf);
+    const littleEndian = endian === Endian.Little;
+
+    if (hasNativeFloat16()) {
+      return dataView.getFloat16(buf.byteOffset + offset, littleEndian);
+    }
+
+    return float16BitsToNumber(
+      dataView.getUint16(buf.byteOffset + offset, littleEndian),
+    );
   }
 
-  readUint64(buf: Uint8Array, endian: Endian): bigint {
-    this.loadBuffer(buf);
-    return this.scratchDataView.getBigUint64(0, endian === Endian.Little);
+  readFloat32(buf: Uint8Array, offset: number, endian: Endian): number {
+    return this.dataView(buf).getFloat32(
+      buf.byteOffset + offset,
+      endian === Endian.Little,
+    );
   }
 
-  readInt64(buf: Uint8Array, endian: Endian): bigint {
-    this.loadBuffer(buf);
-    return this.scratchDataView.getBigInt64(0, endian === Endian.Little);
+  readFloat64(buf: Uint8Array, offset: number, endian: Endian): number {
+    return this.dataView(buf).getFloat64(
+      buf.byteOffset + offset,
+      endian === Endian.Little,
+    );
   }
 }
@@ -4,7 +4,8 @@ import DataViewValueReader from "./DataViewValueReader";
 
 /**
  * PerformanceValueReader uses BitOpsValueReader for 8-16 reading,
- * and DataViewValueReader for 32-64bit reading.
+ * and DataViewValueReader for 32-64bit reading. Floats follow the same
+ * split by width.
  *
  * This provides the best performance.
  */
@@ -12,35 +13,47 @@ export default class PerformanceValueReader implements ValueReader {
   private readonly br = new BitOpsValueReader();
   private readonly dv = new DataViewValueReader();
 
-  readInt8(buf: Uint8Array): number {
-    return this.br.readInt8(buf);
+  readInt8(buf: Uint8Array, offset: number): number {
+    return this.br.readInt8(buf, offset);
   }
 
-  readInt16(buf: Uint8Array, endian: Endian): number {
-    return this.br.readInt16(buf, endian);
+  readInt16(buf: Uint8Array, offset: number, endian: Endian): number {
+    return this.br.readInt16(buf, offset, endian);
   }
 
-  readInt32(buf: Uint8Array, endian: Endian): number {
-    return this.dv.readInt32(buf, endian);
+  readInt32(buf: Uint8Array, offset: number, endian: Endian): number {
+    return this.dv.readInt32(buf, offset, endian);
   }
 
-  readInt64(buf: Uint8Array, endian: Endian): bigint {
-    return this.dv.readInt64(buf, endian);
+  readInt64(buf: Uint8Array, offset: number, endian: Endian): bigint {
+    return this.dv.readInt64(buf, offset, endian);
   }
 
-  readUint8(buf: Uint8Array): number {
-    return this.br.readUint8(buf);
+  readUint8(buf: Uint8Array, offset: number): number {
+    return this.br.readUint8(buf, offset);
   }
 
-  readUint16(buf: Uint8Array, endian: Endian): number {
-    return this.br.readUint16(buf, endian);
+  readUint16(buf: Uint8Array, offset: number, endian: Endian): number {
+    return this.br.readUint16(buf, offset, endian);
   }
 
-  readUint32(buf: Uint8Array, endian: Endian): number {
-    return this.dv.readUint32(buf, endian);
+  readUint32(buf: Uint8Array, offset: number, endian: Endian): number {
+    return this.dv.readUint32(buf, offset, endian);
   }
 
-  readUint64(buf: Uint8Array, endian: Endian): bigint {
-    return this.dv.readUint64(buf, endian);
+  readUint64(buf: Uint8Array, offset: number, endian: Endian): bigint {
+    return this.dv.readUint64(buf, offset, endian);
+  }
+
+  readFloat16(buf: Uint8Array, offset: number, endian: Endian): number {
+    return this.br.readFloat16(buf, offset, endian);
+  }
+
+  readFloat32(buf: Uint8Array, offset: number, endian: Endian): number {
+    return this.dv.readFloat32(buf, offset, endian);
+  }
+
+  readFloat64(buf: Uint8Array, offset: number, endian: Endian): number {
+    return this.dv.readFloat64(buf, offset, endian);
   }
 }
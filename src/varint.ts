@@ -0,0 +1,112 @@
+import { VarIntError } from "./errors";
+
+export const MAX_VARINT_BYTES = 10; // ceil(64 / 7)
+
+export interface DecodedVarInt<T> {
+  value: T;
+  /** Number of bytes the varint occupies */
+  length: number;
+}
+
+/**
+ * Decodes the LEB128 varint at the start of `bytes`, or returns `null` if
+ * `bytes` ends before it does. `offset` is the stream position reported in
+ * errors.
+ */
+export function decodeLeb128(
+  bytes: Uint8Array,
+  signed: boolean,
+  asBigInt: false,
+  offset: number,
+): DecodedVarInt<number> | null;
+export function decodeLeb128(
+  bytes: Uint8Array,
+  signed: boolean,
+  asBigInt: true,
+  offset: number,
+): DecodedVarInt<bigint> | null;
+export function decodeLeb128(
+  bytes: Uint8Array,
+  signed: boolean,
+  asBigInt: boolean,
+  offset: number,
+): DecodedVarInt<number | bigint> | null {
+  // The low 49 bits are accumulated as a number, which stays exact; only
+  // longer encodings fall back to bigint arithmetic
+  let low = 0;
+  let high = 0n;
+  let shift = 0;
+  let prev = 0;
+
+  const end = Math.min(bytes.length, MAX_VARINT_BYTES);
+  for (let i = 0; i < end; i++) {
+    const byte = bytes[i];
+    if (shift < 49) {
+      low += (byte & 0x7f) * 2 ** shift;
+    } else {
+      high |= BigInt(byte & 0x7f) << BigInt(shift);
+    }
+    shift += 7;
+
+    if ((byte & 0x80) !== 0) {
+      prev = byte;
+      continue;
+    }
+
+    if (i > 0 && (signed ? isRedundantSignByte(byte, prev) : byte === 0x00)) {
+      throw new VarIntError("Overlong varint encoding", { offset });
+    }
+
+    const length = i + 1;
+    const negative = signed && (byte & 0x40) !== 0;
+    if (!asBigInt && shift <= 49) {
+      return { value: negative ? low - 2 ** shift : low, length };
+    }
+
+    let value = high | BigInt(low);
+    if (negative) {
+      value -= 1n << BigInt(shift);
+    }
+
+    if (
+      signed ? value < -(1n << 63n) || value >= 1n << 63n : value >> 64n !== 0n
+    ) {
+      throw new VarIntError("Varint exceeds 64 bits", { offset });
+    }
+
+    if (asBigInt) {
+      return { value, length };
+    }
+
+    if (
+      value > BigInt(Number.MAX_SAFE_INTEGER) ||
+      value < BigInt(Number.MIN_SAFE_INTEGER)
+    ) {
+      throw new VarIntError(
+        `Varint exceeds Number.MAX_SAFE_INTEGER, use ${
+          signed ? "readVarIntBigInt" : "readVarUintBigInt"
+        }`,
+        { offset },
+      );
+    }
+
+    return { value: Number(value), length };
+  }
+
+  if (end === MAX_VARINT_BYTES) {
+    throw new VarIntError("Varint exceeds 64 bits", { offset });
+  }
+
+  return null;
+}
+
+/**
+ * A signed LEB128 byte is redundant when it only repeats the sign already
+ * carried by bit 6 of the byte before it.
+ */
+function isRedundantSignByte(byte: number, prev: number): boolean {
+  return (
+    (byte === 0x00 && (prev & 0x40) === 0) ||
+    (byte === 0x7f && (prev & 0x40) !== 0)
+  );
+}
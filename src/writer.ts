@@ -1,74 +1,611 @@
-import { Endian } from "./shared";
+import { combineSignals, raceAbort, throwIfAborted } from "./abort";
+import { uint8ArrayFromBufferSource } from "./buffer";
+import {
+  HOST_ENDIAN,
+  isLittleEndian,
+  resolveEndian,
+  swapByteOrder,
+} from "./endian";
+import { assertByteLength, encodeIntN } from "./int-n";
+import { Endian, type OperationOptions } from "./shared";
+import { hasNativeFloat16, numberToFloat16Bits } from "./float16";
+import { encodeString, type StringEncodingOptions } from "./encoding";
+import {
+  AbortError,
+  type ErrorContext,
+  RangeOverflowError,
+  StreamClosedError,
+} from "./errors";
+
+export interface StreamWriterOptions {
+  /** Default signal for every operation, combined with any per-call signal */
+  signal?: AbortSignal;
+  /** Default byte order for typed writes; defaults to `Endian.Big` */
+  endian?: Endian;
+  /** Called once the stream accepts bytes written through this writer or its views */
+  onWrite?: (progress: WriteProgress) => void;
+}
+
+export interface WriteProgress {
+  /** Size of the accepted write */
+  bytes: number;
+  /** Position after the write */
+  bytesWritten: number;
+}
+
+// Sink, position and lifecycle, shared by a writer and its views
+interface WriterState {
+  writer: WritableStreamDefaultWriter;
+  bytesWritten: number;
+  closed: boolean;
+  observers: Array<(bytes: Uint8Array) => void>;
+}
 
 export class StreamWriter {
-  private textEncoder?: TextEncoder;
-  private writer: WritableStreamDefaultWriter;
+  private readonly state: WriterState;
   private buffer: Uint8Array = new Uint8Array(8);
+  private readonly signal?: AbortSignal;
+  private readonly isView: boolean; // Created from another writer
 
-  constructor(public stream: WritableStream) {
-    this.writer = stream.getWriter();
+  public stream: WritableStream;
+
+  /** Byte order used by typed writes that are not given one */
+  public readonly endian: Endian.Little | Endian.Big;
+
+  /**
+   * Passing another `StreamWriter` creates a view that shares its stream and
+   * position.
+   */
+  constructor(
+    target: WritableStream | StreamWriter,
+    options: StreamWriterOptions = {},
+  ) {
+    this.isView = target instanceof StreamWriter;
+    if (target instanceof StreamWriter) {
+      this.stream = target.stream;
+      this.state = target.state;
+      this.signal = options.signal ?? target.signal;
+      this.endian = resolveEndian(options.endian ?? target.endian);
+    } else {
+      this.stream = target;
+      this.state = {
+        writer: target.getWriter(),
+        bytesWritten: 0,
+        closed: false,
+        observers: [],
+      };
+      this.signal = options.signal;
+      this.endian = resolveEndian(options.endian ?? Endian.Big);
+    }
+
+    const { onWrite } = options;
+    if (onWrite != null) {
+      this.addObserver((bytes) =>
+        onWrite({ bytes: bytes.length, bytesWritten: this.bytesWritten }),
+      );
+    }
   }
 
-  async write(buffer: BufferSource): Promise<number> {
-    await this.writer.write(buffer);
+  get bytesWritten(): number {
+    return this.state.bytesWritten;
+  }
+
+  set bytesWritten(value: number) {
+    this.state.bytesWritten = value;
+  }
+
+  private assertOpen(): void {
+    if (this.state.closed) {
+      throw new StreamClosedError({ offset: this.bytesWritten });
+    }
+  }
+
+  /**
+   * Waits for `pending` unless the operation is aborted first. A chunk handed
+   * to the stream cannot be taken back, so an abort then fails the writer and
+   * aborts the underlying stream.
+   */
+  private async settle(
+    pending: () => Promise<void>,
+    signal: AbortSignal | undefined,
+    context: ErrorContext,
+  ): Promise<void> {
+    throwIfAborted(signal, context);
+
+    try {
+      await raceAbort(pending(), signal, context);
+    } catch (error) {
+      if (error instanceof AbortError) {
+        this.state.closed = true;
+        this.state.writer.abort(error.cause).catch(() => {});
+      }
+
+      throw error;
+    }
+  }
+
+  async write(
+    buffer: BufferSource,
+    options: OperationOptions = {},
+  ): Promise<number> {
+    this.assertOpen();
+
+    const context = {
+      offset: this.bytesWritten,
+      requested: buffer.byteLength,
+    };
+    await this.settle(
+      () =>
+        this.state.writer.write(buffer).catch((error: unknown) => {
+          // abort() fails pending writes with its reason
+          throw this.state.closed
+            ? new StreamClosedError(context, { cause: error })
+            : error;
+        }),
+      combineSignals(options.signal, this.signal),
+      context,
+    );
+    this.bytesWritten += buffer.byteLength;
+    this.observe(buffer);
 
     return buffer.byteLength;
   }
 
-  async writeString(value: string) {
-    const encoder = (this.textEncoder ??= new TextEncoder());
-    const buffer = encoder.encode(value);
-    return this.write(buffer);
+  /**
+   * Registers `observer` to be called with every byte written through this
+   * writer or any view sharing its stream, once the stream accepts them.
+   */
+  protected addObserver(observer: (bytes: Uint8Array) => void): void {
+    this.state.observers.push(observer);
+  }
+
+  protected removeObserver(observer: (bytes: Uint8Array) => void): void {
+    const index = this.state.observers.indexOf(observer);
+    if (index !== -1) {
+      this.state.observers.splice(index, 1);
+    }
+  }
+
+  private observe(buffer: BufferSource): void {
+    if (this.state.observers.length === 0) {
+      return;
+    }
+
+    const bytes = uint8ArrayFromBufferSource(buffer);
+    for (const observer of this.state.observers) {
+      observer(bytes);
+    }
+  }
+
+  async writeString(
+    value: string,
+    options: StringEncodingOptions & OperationOptions = {},
+  ) {
+    const buffer = encodeString(value, options, this.bytesWritten);
+    return this.write(buffer, options);
   }
 
-  async writeUint8(value: number) {
+  async writeUint8(value: number, options: OperationOptions = {}) {
     this.buffer.set([value], 0);
-    return this.write(this.buffer.slice(0, 1));
+    return this.write(this.buffer.slice(0, 1), options);
   }
 
-  async writeInt8(value: number) {
+  async writeInt8(value: number, options: OperationOptions = {}) {
     const dataView = new DataView(this.buffer.buffer);
     dataView.setInt8(0, value);
-    return this.write(this.buffer.slice(0, 1));
+    return this.write(this.buffer.slice(0, 1), options);
+  }
+
+  async writeUint16(
+    value: number,
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ) {
+    const dataView = new DataView(this.buffer.buffer);
+    dataView.setUint16(0, value, isLittleEndian(endian));
+    return this.write(this.buffer.slice(0, 2), options);
   }
 
-  async writeUint16(value: number, endian: Endian = Endian.Big) {
+  async writeInt16(
+    value: number,
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ) {
     const dataView = new DataView(this.buffer.buffer);
-    dataView.setUint16(0, value, endian === Endian.Little);
-    return this.write(this.buffer.slice(0, 2));
+    dataView.setInt16(0, value, isLittleEndian(endian));
+    return this.write(this.buffer.slice(0, 2), options);
   }
 
-  async writeInt16(value: number, endian: Endian = Endian.Big) {
+  async writeUint32(
+    value: number,
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ) {
     const dataView = new DataView(this.buffer.buffer);
-    dataView.setInt16(0, value, endian === Endian.Little);
-    return this.write(this.buffer.slice(0, 2));
+    dataView.setUint32(0, value, isLittleEndian(endian));
+    return this.write(this.buffer.slice(0, 4), options);
   }
 
-  async writeUint32(value: number, endian: Endian = Endian.Big) {
+  async writeInt32(
+    value: number,
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ) {
     const dataView = new DataView(this.buffer.buffer);
-    dataView.setUint32(0, value, endian === Endian.Little);
-    return this.write(this.buffer.slice(0, 4));
+    dataView.setInt32(0, value, isLittleEndian(endian));
+    return this.write(this.buffer.slice(0, 4), options);
   }
 
-  async writeInt32(value: number, endian: Endian = Endian.Big) {
+  async writeUint64(
+    value: bigint,
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ) {
     const dataView = new DataView(this.buffer.buffer);
-    dataView.setInt32(0, value, endian === Endian.Little);
-    return this.write(this.buffer.slice(0, 4));
+    dataView.setBigUint64(0, value, isLittleEndian(endian));
+    return this.write(this.buffer.slice(0, 8), options);
   }
 
-  async writeUint64(value: bigint, endian: Endian = Endian.Big) {
+  async writeInt64(
+    value: bigint,
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ) {
     const dataView = new DataView(this.buffer.buffer);
-    dataView.setBigUint64(0, value, endian === Endian.Little);
-    return this.write(this.buffer.slice(0, 8));
+    dataView.setBigInt64(0, value, isLittleEndian(endian));
+    return this.write(this.buffer.slice(0, 8), options);
+  }
+
+  /**
+   * Writes `value` as a `byteLength`-byte unsigned integer, such as a 24-bit
+   * sample or a 128-bit UUID. Values beyond 6 bytes may need a `bigint`.
+   */
+  async writeUintN(
+    value: number | bigint,
+    byteLength: number,
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ) {
+    assertByteLength(byteLength);
+    const bytes = encodeIntN(
+      value,
+      byteLength,
+      resolveEndian(endian),
+      false,
+      this.bytesWritten,
+    );
+    return this.write(bytes, options);
   }
 
-  async writeInt64(value: bigint, endian: Endian = Endian.Big) {
+  /** Writes `value` as a `byteLength`-byte two's complement integer */
+  async writeIntN(
+    value: number | bigint,
+    byteLength: number,
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ) {
+    assertByteLength(byteLength);
+    const bytes = encodeIntN(
+      value,
+      byteLength,
+      resolveEndian(endian),
+      true,
+      this.bytesWritten,
+    );
+    return this.write(bytes, options);
+  }
+
+  async writeFloat16(
+    value: number,
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ) {
     const dataView = new DataView(this.buffer.buffer);
-    dataView.setBigInt64(0, value, endian === Endian.Little);
-    return this.write(this.buffer.slice(0, 8));
+    if (hasNativeFloat16()) {
+      dataView.setFloat16(0, value, isLittleEndian(endian));
+    } else {
+      dataView.setUint16(0, numberToFloat16Bits(value), isLittleEndian(endian));
+    }
+    return this.write(this.buffer.slice(0, 2), options);
+  }
+
+  async writeFloat32(
+    value: number,
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ) {
+    const dataView = new DataView(this.buffer.buffer);
+    dataView.setFloat32(0, value, isLittleEndian(endian));
+    return this.write(this.buffer.slice(0, 4), options);
+  }
+
+  async writeFloat64(
+    value: number,
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ) {
+    const dataView = new DataView(this.buffer.buffer);
+    dataView.setFloat64(0, value, isLittleEndian(endian));
+    return this.write(this.buffer.slice(0, 8), options);
+  }
+
+  /**
+   * Writes the elements of `array` in the requested byte order, passing the
+   * array's own bytes through when no swap is needed.
+   */
+  private async writeElements(
+    array:
+      | Int8Array
+      | Uint16Array
+      | Int16Array
+      | Uint32Array
+      | Int32Array
+      | BigUint64Array
+      | BigInt64Array
+      | Float32Array
+      | Float64Array,
+    endian: Endian,
+    options: OperationOptions,
+  ): Promise<number> {
+    const elementSize = array.BYTES_PER_ELEMENT;
+    let bytes = new Uint8Array(
+      array.buffer,
+      array.byteOffset,
+      array.byteLength,
+    );
+    if (elementSize > 1 && resolveEndian(endian) !== HOST_ENDIAN) {
+      bytes = swapByteOrder(bytes, elementSize);
+    }
+
+    return this.write(bytes, options);
+  }
+
+  async writeInt8Array(
+    values: ArrayLike<number>,
+    options: OperationOptions = {},
+  ): Promise<number> {
+    const array = values instanceof Int8Array ? values : Int8Array.from(values);
+    return this.writeElements(array, Endian.Big, options);
+  }
+
+  async writeUint16Array(
+    values: ArrayLike<number>,
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ): Promise<number> {
+    const array =
+      values instanceof Uint16Array ? values : Uint16Array.from(values);
+    return this.writeElements(array, endian, options);
+  }
+
+  async writeInt16Array(
+    values: ArrayLike<number>,
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ): Promise<number> {
+    const array =
+      values instanceof Int16Array ? values : Int16Array.from(values);
+    return this.writeElements(array, endian, options);
+  }
+
+  async writeUint32Array(
+    values: ArrayLike<number>,
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ): Promise<number> {
+    const array =
+      values instanceof Uint32Array ? values : Uint32Array.from(values);
+    return this.writeElements(array, endian, options);
+  }
+
+  async writeInt32Array(
+    values: ArrayLike<number>,
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ): Promise<number> {
+    const array =
+      values instanceof Int32Array ? values : Int32Array.from(values);
+    return this.writeElements(array, endian, options);
+  }
+
+  async writeBigUint64Array(
+    values: ArrayLike<bigint>,
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ): Promise<number> {
+    const array =
+      values instanceof BigUint64Array ? values : BigUint64Array.from(values);
+    return this.writeElements(array, endian, options);
+  }
+
+  async writeBigInt64Array(
+    values: ArrayLike<bigint>,
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ): Promise<number> {
+    const array =
+      values instanceof BigInt64Array ? values : BigInt64Array.from(values);
+    return this.writeElements(array, endian, options);
+  }
+
+  async writeFloat32Array(
+    values: ArrayLike<number>,
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ): Promise<number> {
+    const array =
+      values instanceof Float32Array ? values : Float32Array.from(values);
+    return this.writeElements(array, endian, options);
+  }
+
+  async writeFloat64Array(
+    values: ArrayLike<number>,
+    endian: Endian = this.endian,
+    options: OperationOptions = {},
+  ): Promise<number> {
+    const array =
+      values instanceof Float64Array ? values : Float64Array.from(values);
+    return this.writeElements(array, endian, options);
+  }
+
+  async writeVarUint(
+    value: number | bigint,
+    options: OperationOptions = {},
+  ): Promise<number> {
+    if (typeof value === "bigint") {
+      if (value < 0n || value >> 64n !== 0n) {
+        throw new RangeOverflowError(
+          "Value must be an unsigned 64-bit integer",
+          {
+            offset: this.bytesWritten,
+          },
+        );
+      }
+
+      const bytes: number[] = [];
+      while (value >= 0x80n) {
+        bytes.push(Number(value & 0x7fn) | 0x80);
+        value >>= 7n;
+      }
+      bytes.push(Number(value));
+
+      return this.write(new Uint8Array(bytes), options);
+    }
+
+    if (!Number.isSafeInteger(value) || value < 0) {
+      throw new RangeOverflowError(
+        "Value must be a non-negative safe integer",
+        {
+          offset: this.bytesWritten,
+        },
+      );
+    }
+
+    const bytes: number[] = [];
+    while (value >= 0x80) {
+      bytes.push(value % 0x80 | 0x80);
+      value = Math.floor(value / 0x80);
+    }
+    bytes.push(value);
+
+    return this.write(new Uint8Array(bytes), options);
+  }
+
+  async writeVarInt(
+    value: number | bigint,
+    options: OperationOptions = {},
+  ): Promise<number> {
+    if (typeof value === "number" && !Number.isSafeInteger(value)) {
+      throw new RangeOverflowError("Value must be a safe integer", {
+        offset: this.bytesWritten,
+      });
+    }
+
+    let remaining = BigInt(value);
+    if (remaining < -(1n << 63n) || remaining >= 1n << 63n) {
+      throw new RangeOverflowError("Value must be a signed 64-bit integer", {
+        offset: this.bytesWritten,
+      });
+    }
+
+    const bytes: number[] = [];
+    while (true) {
+      const byte = Number(remaining & 0x7fn);
+      remaining >>= 7n;
+
+      // Stop once the rest is pure sign extension of bit 6
+      if (
+        (remaining === 0n && (byte & 0x40) === 0) ||
+        (remaining === -1n && (byte & 0x40) !== 0)
+      ) {
+        bytes.push(byte);
+        break;
+      }
+
+      bytes.push(byte | 0x80);
+    }
+
+    return this.write(new Uint8Array(bytes), options);
+  }
+
+  async writeZigZag(
+    value: number | bigint,
+    options: OperationOptions = {},
+  ): Promise<number> {
+    if (typeof value === "bigint") {
+      if (value < -(1n << 63n) || value >= 1n << 63n) {
+        throw new RangeOverflowError("Value must be a signed 64-bit integer", {
+          offset: this.bytesWritten,
+        });
+      }
+
+      return this.writeVarUint((value << 1n) ^ (value >> 63n), options);
+    }
+
+    if (!Number.isSafeInteger(value)) {
+      throw new RangeOverflowError("Value must be a safe integer", {
+        offset: this.bytesWritten,
+      });
+    }
+
+    const encoded = value >= 0 ? value * 2 : -value * 2 - 1;
+    if (!Number.isSafeInteger(encoded)) {
+      return this.writeZigZag(BigInt(value), options);
+    }
+
+    return this.writeVarUint(encoded, options);
   }
 
-  async close(): Promise<void> {
-    return await this.writer.close();
+  /**
+   * Returns a view that shares this writer's stream and position but
+   * defaults to `endian` for typed writes.
+   */
+  withEndian(endian: Endian): StreamWriter {
+    return new StreamWriter(this, { endian });
   }
+
+  async close(options: OperationOptions = {}): Promise<void> {
+    this.assertOpen();
+
+    const signal = combineSignals(options.signal, this.signal);
+    throwIfAborted(signal, { offset: this.bytesWritten });
+
+    this.state.closed = true;
+    await this.settle(() => this.state.writer.close(), signal, {
+      offset: this.bytesWritten,
+    });
+  }
+
+  /**
+   * Closes the writer and aborts the underlying stream with `reason`,
+   * discarding anything still queued. Does nothing if the writer is already
+   * closed.
+   */
+  async abort(reason?: unknown): Promise<void> {
+    if (this.state.closed) {
+      return;
+    }
+
+    this.state.closed = true;
+    await this.state.writer.abort(reason);
+  }
+
+  /**
+   * Closes the writer, flushing pending writes, unless it is already closed.
+   * Disposing a view only releases the view, through `releaseView()`, and
+   * leaves the stream to the writer it was created from.
+   */
+  async [Symbol.asyncDispose](): Promise<void> {
+    if (this.isView) {
+      await this.releaseView();
+      return;
+    }
+
+    if (!this.state.closed) {
+      await this.close();
+    }
+  }
+
+  /** Called when a view is disposed; plain views hold nothing to release */
+  protected async releaseView(): Promise<void> {}
 }
@@ -0,0 +1,154 @@
+import { describe, test, expect } from "bun:test";
+import { BitReader, BitOrder, StreamReader } from "../../index";
+
+describe("BitReader", () => {
+  describe("MSB-first", () => {
+    test("should read bit fields within a byte", async () => {
+      const reader = new BitReader(
+        StreamReader.from(new Uint8Array([0b10110010])),
+      );
+
+      expect(await reader.readBits(1)).toBe(1);
+      expect(await reader.readBits(3)).toBe(0b011);
+      expect(await reader.readBits(4)).toBe(0b0010);
+      expect(reader.bitsRead).toBe(8);
+    });
+
+    test("should read bit fields spanning bytes", async () => {
+      const reader = new BitReader(
+        StreamReader.from(new Uint8Array([0x12, 0x34, 0x56])),
+      );
+
+      expect(await reader.readBits(4)).toBe(0x1);
+      expect(await reader.readBits(12)).toBe(0x234);
+      expect(await reader.readBits(8)).toBe(0x56);
+    });
+
+    test("should read booleans", async () => {
+      const reader = new BitReader(
+        StreamReader.from(new Uint8Array([0b10100000])),
+      );
+
+      expect(await reader.readBool()).toBe(true);
+      expect(await reader.readBool()).toBe(false);
+      expect(await reader.readBool()).toBe(true);
+    });
+
+    test("should read up to 53 bits as a number", async () => {
+      const reader = new BitReader(
+        StreamReader.from(
+          new Uint8Array([0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]),
+        ),
+      );
+
+      expect(await reader.readBits(53)).toBe(Number.MAX_SAFE_INTEGER);
+    });
+
+    test("should read up to 64 bits as a bigint", async () => {
+      const reader = new BitReader(
+        StreamReader.from(
+          new Uint8Array([
+            0xf1, 0x23, 0x45, 0x67, 0x89, 0xab, 0xcd, 0xef, 0xf0,
+          ]),
+        ),
+      );
+
+      expect(await reader.readBitsBigInt(4)).toBe(0xfn);
+      expect(await reader.readBitsBigInt(64)).toBe(0x123456789abcdeffn);
+    });
+  });
+
+  describe("LSB-first", () => {
+    test("should read bit fields within a byte", async () => {
+      const reader = new BitReader(
+        StreamReader.from(new Uint8Array([0b10110010])),
+        BitOrder.LsbFirst,
+      );
+
+      expect(await reader.readBits(1)).toBe(0);
+      expect(await reader.readBits(3)).toBe(0b001);
+      expect(await reader.readBits(4)).toBe(0b1011);
+    });
+
+    test("should read bit fields spanning bytes", async () => {
+      const reader = new BitReader(
+        StreamReader.from(new Uint8Array([0x12, 0x34, 0x56])),
+        BitOrder.LsbFirst,
+      );
+
+      expect(await reader.readBits(4)).toBe(0x2);
+      expect(await reader.readBits(12)).toBe(0x341);
+      expect(await reader.readBits(8)).toBe(0x56);
+    });
+
+    test("should read up to 64 bits as a bigint", async () => {
+      const reader = new BitReader(
+        StreamReader.from(
+          new Uint8Array([0xef, 0xcd, 0xab, 0x89, 0x67, 0x45, 0x23, 0x01]),
+        ),
+        BitOrder.LsbFirst,
+      );
+
+      expect(await reader.readBitsBigInt(64)).toBe(0x0123456789abcdefn);
+    });
+  });
+
+  describe("alignment", () => {
+    test("should discard remaining bits of the current byte", async () => {
+      const streamReader = StreamReader.from(
+        new Uint8Array([0xff, 0x12, 0x34]),
+      );
+      const reader = new BitReader(streamReader);
+
+      expect(await reader.readBits(3)).toBe(0b111);
+      expect(streamReader.bytesRead).toBe(1);
+
+      reader.alignToByte();
+      expect(reader.bitsRead).toBe(8);
+      expect(await reader.readBits(8)).toBe(0x12);
+    });
+
+    test("should keep the byte reader position consistent", async () => {
+      const streamReader = StreamReader.from(
+        new Uint8Array([0xab, 0x12, 0x34]),
+      );
+      const reader = new BitReader(streamReader);
+
+      await reader.readBits(5);
+      reader.alignToByte();
+
+      expect(await streamReader.readUint16()).toBe(0x1234);
+      expect(streamReader.bytesRead).toBe(3);
+    });
+
+    test("should be a no-op when already aligned", async () => {
+      const streamReader = StreamReader.from(new Uint8Array([0xab, 0xcd]));
+      const reader = new BitReader(streamReader);
+
+      await reader.readBits(8);
+      reader.alignToByte();
+
+      expect(reader.bitsRead).toBe(8);
+      expect(await reader.readBits(8)).toBe(0xcd);
+    });
+  });
+
+  describe("error handling", () => {
+    test("should reject invalid bit counts", async () => {
+      const reader = new BitReader(StreamReader.from(new Uint8Array(16)));
+
+      expect(async () => await reader.readBits(54)).toThrow(RangeError);
+      expect(async () => await reader.readBits(-1)).toThrow(RangeError);
+      expect(async () => await reader.readBitsBigInt(65)).toThrow(RangeError);
+    });
+
+    test("should throw when reading beyond stream end", async () => {
+      const reader = new BitReader(StreamReader.from(new Uint8Array([0xff])));
+
+      await reader.readBits(4);
+      expect(async () => await reader.readBits(8)).toThrow(
+        "Unexpected end of stream",
+      );
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, test, expect } from "bun:test";
+import {
+  BitWriter,
+  BitOrder,
+  StreamWriter,
+  RangeOverflowError,
+} from "../../index";
+
+describe("BitWriter", () => {
+  function createWriter(bitOrder?: BitOrder) {
+    const chunks: Uint8Array[] = [];
+    const stream = new WritableStream({
+      write(chunk) {
+        chunks.push(new Uint8Array(chunk));
+      },
+    });
+
+    const writer = new BitWriter(new StreamWriter(stream), bitOrder);
+    const getData = () => {
+      const bytes = chunks.flatMap((chunk) => Array.from(chunk));
+      return new Uint8Array(bytes);
+    };
+
+    return { writer, getData };
+  }
+
+  describe("MSB-first", () => {
+    test("should pack bit fields into bytes", async () => {
+      const { writer, getData } = createWriter();
+
+      await writer.writeBits(1, 1);
+      await writer.writeBits(0b011, 3);
+      await writer.writeBits(0b0010, 4);
+      await writer.writeBits(0x234, 12);
+      await writer.flush();
+
+      expect(getData()).toEqual(new Uint8Array([0b10110010, 0x23, 0x40]));
+      expect(writer.bitsWritten).toBe(24);
+    });
+
+    test("should write booleans", async () => {
+      const { writer, getData } = createWriter();
+
+      await writer.writeBool(true);
+      await writer.writeBool(false);
+      await writer.writeBool(true);
+      await writer.flush();
+
+      expect(getData()).toEqual(new Uint8Array([0b10100000]));
+    });
+
+    test("should write 64-bit bigint values", async () => {
+      const { writer, getData } = createWriter();
+
+      await writer.writeBits(0xf, 4);
+      await writer.writeBits(0x123456789abcdeffn, 64);
+      await writer.flush();
+
+      expect(getData()).toEqual(
+        new Uint8Array([0xf1, 0x23, 0x45, 0x67, 0x89, 0xab, 0xcd, 0xef, 0xf0]),
+      );
+    });
+  });
+
+  describe("LSB-first", () => {
+    test("should pack bit fields into bytes", async () => {
+      const { writer, getData } = createWriter(BitOrder.LsbFirst);
+
+      await writer.writeBits(0, 1);
+      await writer.writeBits(0b001, 3);
+      await writer.writeBits(0b1011, 4);
+      await writer.writeBits(0x341, 12);
+      await writer.flush();
+
+      expect(getData()).toEqual(new Uint8Array([0b10110010, 0x41, 0x03]));
+    });
+
+    test("should write 64-bit bigint values", async () => {
+      const { writer, getData } = createWriter(BitOrder.LsbFirst);
+
+      await writer.writeBits(0x0123456789abcdefn, 64);
+
+      expect(getData()).toEqual(
+        new Uint8Array([0xef, 0xcd, 0xab, 0x89, 0x67, 0x45, 0x23, 0x01]),
+      );
+    });
+  });
+
+  describe("flushing", () => {
+    test("should not write anything when aligned", async () => {
+      const { writer, getData } = createWriter();
+
+      await writer.writeBits(0xab, 8);
+      await writer.flush();
+
+      expect(getData()).toEqual(new Uint8Array([0xab]));
+      expect(writer.bitsWritten).toBe(8);
+    });
+  });
+
+  describe("error handling", () => {
+    test("should reject values that do not fit", async () => {
+      const { writer } = createWriter();
+
+      expect(async () => await writer.writeBits(8, 3)).toThrow(
+        RangeOverflowError,
+      );
+      expect(async () => await writer.writeBits(-1, 3)).toThrow(
+        RangeOverflowError,
+      );
+      expect(async () => await writer.writeBits(1n << 64n, 64)).toThrow(
+        RangeOverflowError,
+      );
+    });
+
+    test("should reject invalid bit counts", async () => {
+      const { writer } = createWriter();
+
+      expect(async () => await writer.writeBits(0, 54)).toThrow(RangeError);
+      expect(async () => await writer.writeBits(0n, 65)).toThrow(RangeError);
+    });
+  });
+});
@@ -0,0 +1,268 @@
+import { describe, test, expect } from "bun:test";
+import {
+  BufferReader,
+  StreamReader,
+  Endian,
+  BitOpsValueReader,
+  BufferLimitError,
+  RangeOverflowError,
+  UnexpectedEofError,
+  StringEncodingError,
+  VarIntError,
+  type BinaryReader,
+} from "../../index";
+
+describe("BufferReader", () => {
+  describe("reading", () => {
+    test("should read typed values synchronously", () => {
+      const reader = new BufferReader(
+        new Uint8Array([
+          0xff, 0x12, 0x34, 0x78, 0x56, 0x34, 0x12, 0x3c, 0x00, 0x00, 0x00,
+          0x00, 0x00, 0x00, 0x00, 0x01, 0x00,
+        ]),
+      );
+
+      expect(reader.readInt8()).toBe(-1);
+      expect(reader.readUint16()).toBe(0x1234);
+      expect(reader.readUint32(Endian.Little)).toBe(0x12345678);
+      expect(reader.readFloat16()).toBe(1);
+      expect(reader.peekUint64()).toBe(0x100n);
+      expect(reader.readUint64()).toBe(0x100n);
+      expect(reader.bytesRead).toBe(17);
+      expect(reader.remaining).toBe(0);
+    });
+
+    test("should return views of the buffer", () => {
+      const data = new Uint8Array([1, 2, 3, 4]);
+      const reader = new BufferReader(data);
+
+      const bytes = reader.read(2);
+      expect(bytes).toEqual(new Uint8Array([1, 2]));
+      expect(bytes.buffer).toBe(data.buffer);
+      expect(reader.peek(2)).toEqual(new Uint8Array([3, 4]));
+      expect(reader.bytesRead).toBe(2);
+    });
+
+    test("should reject lengths that are not non-negative integers", () => {
+      const reader = new BufferReader(Uint8Array.of(1, 2, 3));
+
+      for (const len of [-2, 1.5, NaN]) {
+        expect(() => reader.skip(len)).toThrow(RangeError);
+        expect(() => reader.read(len)).toThrow(RangeError);
+        expect(() => reader.peek(len)).toThrow(RangeError);
+      }
+
+      expect(reader.bytesRead).toBe(0);
+      expect(reader.readUint8()).toBe(1);
+    });
+
+    test("should only read the bytes of a view", () => {
+      const data = new Uint8Array([9, 1, 2, 9]);
+      const reader = new BufferReader(new DataView(data.buffer, 1, 2));
+
+      expect(reader.readUntilEof()).toEqual(new Uint8Array([1, 2]));
+    });
+
+    test("should use the given value reader and default endianness", () => {
+      const reader = new BufferReader(
+        new Uint8Array([0x00, 0x3c, 0x34, 0x12]),
+        new BitOpsValueReader(),
+        { endian: Endian.Little },
+      );
+
+      expect(reader.endian).toBe(Endian.Little);
+      expect(reader.readFloat16()).toBe(1);
+      expect(reader.readUint16()).toBe(0x1234);
+    });
+
+    test("should throw at the end of the buffer without moving", () => {
+      const reader = new BufferReader(new Uint8Array([1, 2, 3]));
+      reader.skip(1);
+
+      let error: any;
+      try {
+        reader.readUint32();
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(UnexpectedEofError);
+      expect(error.offset).toBe(1);
+      expect(error.requested).toBe(4);
+      expect(error.available).toBe(2);
+      expect(reader.bytesRead).toBe(1);
+      expect(() => reader.skip(3)).toThrow(UnexpectedEofError);
+    });
+
+    test("should read arbitrary-width integers", () => {
+      const reader = new BufferReader(
+        new Uint8Array([
+          0xff, 0xff, 0xfe, 0x01, 0x02, 0x03, 0x04, 0x05, 0x06, 0x07,
+        ]),
+      );
+
+      expect(reader.readIntN(3)).toBe(-2);
+      expect(reader.readUintN(7, Endian.Little)).toBe(0x07060504030201n);
+      expect(() => reader.readUintN(1)).toThrow(UnexpectedEofError);
+      expect(() => reader.readUintN(0)).toThrow(RangeError);
+    });
+
+    test("should read typed arrays", () => {
+      const reader = new BufferReader(
+        new Uint8Array([0xff, 0x00, 0x01, 0x00, 0x02, 0x01, 0x00]),
+      );
+
+      expect(reader.readInt8Array(1)).toEqual(Int8Array.of(-1));
+      expect(reader.readUint16Array(2)).toEqual(Uint16Array.of(1, 2));
+      expect(reader.readUint16Array(1, Endian.Little)).toEqual(
+        Uint16Array.of(1),
+      );
+      expect(() => reader.readUint16Array(-1)).toThrow(RangeError);
+    });
+
+    test("should read all remaining bytes up to maxBytes", () => {
+      const reader = new BufferReader(new Uint8Array([1, 2, 3, 4]));
+      reader.skip(1);
+
+      expect(() => reader.readUntilEof({ maxBytes: 2 })).toThrow(
+        BufferLimitError,
+      );
+      expect(reader.readUntilEof({ maxBytes: 3 })).toEqual(
+        new Uint8Array([2, 3, 4]),
+      );
+      expect(reader.readUntilEof()).toEqual(new Uint8Array(0));
+    });
+  });
+
+  describe("strings and delimiters", () => {
+    const encoder = new TextEncoder();
+
+    test("should read strings, C strings and lines", () => {
+      const reader = new BufferReader(
+        encoder.encode("héllo\0first\r\nsecond\nlast"),
+      );
+
+      expect(reader.readString(6)).toBe("héllo");
+      expect(reader.readCString()).toBe("");
+      expect(reader.readLine()).toBe("first");
+      expect(reader.readLine()).toBe("second");
+      expect(reader.readLine()).toBe("last");
+      expect(reader.readLine()).toBeNull();
+    });
+
+    test("should report invalid strings in fatal mode", () => {
+      const reader = new BufferReader(new Uint8Array([0x41, 0xff, 0xfe]));
+      reader.skip(1);
+
+      let error: any;
+      try {
+        reader.readString(2, { fatal: true });
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(StringEncodingError);
+      expect(error.offset).toBe(1);
+    });
+
+    test("should read until multi-byte delimiters", () => {
+      const reader = new BufferReader(encoder.encode("a-b--c--"));
+
+      expect(reader.readUntil(encoder.encode("--"))).toEqual(
+        encoder.encode("a-b"),
+      );
+      expect(
+        reader.readUntil(encoder.encode("--"), { includeDelimiter: true }),
+      ).toEqual(encoder.encode("c--"));
+    });
+
+    test("should enforce maxLength and report missing delimiters", () => {
+      const reader = new BufferReader(encoder.encode("abcdef"));
+
+      expect(() => reader.readCString({ maxLength: 3 })).toThrow(
+        RangeOverflowError,
+      );
+      expect(() => reader.readCString()).toThrow(UnexpectedEofError);
+      expect(reader.bytesRead).toBe(0);
+    });
+
+    test("should not count the CR of a CRLF toward maxLength", () => {
+      const reader = new BufferReader(encoder.encode("abc\r\nde\n"));
+
+      expect(reader.readLine({ maxLength: 3 })).toBe("abc");
+      expect(reader.readLine({ maxLength: 3 })).toBe("de");
+
+      for (const text of ["abcd\n", "abcd\r\n", "abc\r"]) {
+        expect(() =>
+          new BufferReader(encoder.encode(text)).readLine({ maxLength: 3 }),
+        ).toThrow(RangeOverflowError);
+      }
+    });
+  });
+
+  describe("varints", () => {
+    test("should read varints", () => {
+      const reader = new BufferReader(
+        new Uint8Array([0xac, 0x02, 0x7f, 0x03, 0xff, 0xff, 0xff, 0xff, 0x0f]),
+      );
+
+      expect(reader.readVarUint()).toBe(300);
+      expect(reader.readVarInt()).toBe(-1);
+      expect(reader.readZigZag()).toBe(-2);
+      expect(reader.readVarUintBigInt()).toBe(0xffffffffn);
+    });
+
+    test("should reject truncated and overlong varints without moving", () => {
+      expect(() =>
+        new BufferReader(new Uint8Array([0x80])).readVarUint(),
+      ).toThrow(UnexpectedEofError);
+
+      const reader = new BufferReader(new Uint8Array([0x80, 0x00]));
+      expect(() => reader.readVarUint()).toThrow(VarIntError);
+      expect(reader.bytesRead).toBe(0);
+    });
+  });
+
+  describe("views", () => {
+    test("should limit reads to a section and advance the parent", () => {
+      const reader = new BufferReader(new Uint8Array([1, 2, 3, 4, 5]));
+      reader.skip(1);
+
+      const section = reader.limit(2);
+      expect(section.readUint8()).toBe(2);
+      expect(() => section.readUint16()).toThrow(UnexpectedEofError);
+      expect(section.readUntilEof()).toEqual(new Uint8Array([3]));
+      expect(section.readLine()).toBeNull();
+
+      expect(reader.bytesRead).toBe(3);
+      expect(() => reader.limit(3)).toThrow(RangeOverflowError);
+      expect(() => reader.limit(-1)).toThrow(RangeError);
+    });
+
+    test("should share the position with a different byte order", () => {
+      const reader = new BufferReader(new Uint8Array([0x12, 0x34, 0x12, 0x34]));
+      const little = reader.withEndian(Endian.Little);
+
+      expect(little.readUint16()).toBe(0x3412);
+      expect(reader.readUint16()).toBe(0x1234);
+      expect(little.bytesRead).toBe(4);
+    });
+  });
+
+  describe("shared interface", () => {
+    async function parseRecord(reader: BinaryReader) {
+      const id = await reader.readUint16();
+      const name = await reader.readCString();
+      const tags = await reader.readVarUint();
+      return { id, name, tags };
+    }
+
+    test("should run the same parser over both readers", async () => {
+      const data = new Uint8Array([0x00, 0x07, 0x61, 0x62, 0x00, 0x05]);
+      const expected = { id: 7, name: "ab", tags: 5 };
+
+      expect(await parseRecord(new BufferReader(data))).toEqual(expected);
+      expect(await parseRecord(StreamReader.from(data))).toEqual(expected);
+    });
+  });
+});
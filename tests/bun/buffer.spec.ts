@@ -1,5 +1,10 @@
 import { describe, test, expect } from "bun:test";
-import { uint8ArrayFromBufferSource, toBase64 } from "../../index";
+import {
+  uint8ArrayFromBufferSource,
+  toBase64,
+  ConduitError,
+  InvalidBufferSourceError,
+} from "../../index";
 
 describe("Buffer utilities", () => {
   describe("uint8ArrayFromBufferSource", () => {
@@ -31,6 +36,15 @@ describe("Buffer utilities", () => {
       expect(result).toEqual(new Uint8Array([0xff, 0xfe, 3, 4, 5])); // -1 becomes 0xff, -2 becomes 0xfe
     });
 
+    test("should only cover the bytes of a view", () => {
+      const input = new Uint16Array([0x0102, 0x0304, 0x0506]).subarray(1, 2);
+      const result = uint8ArrayFromBufferSource(input);
+
+      expect(result.length).toBe(2);
+      expect(result.byteOffset).toBe(2);
+      expect(result.buffer).toBe(input.buffer);
+    });
+
     test("should convert Uint16Array to Uint8Array", () => {
       const input = new Uint16Array([0x0102, 0x0304]);
       const result = uint8ArrayFromBufferSource(input);
@@ -82,20 +96,24 @@ describe("Buffer utilities", () => {
       expect(result.length).toBe(0);
     });
 
-    test("should throw TypeError for unsupported types", () => {
+    test("should throw InvalidBufferSourceError for unsupported types", () => {
       expect(() => uint8ArrayFromBufferSource("not a buffer" as any)).toThrow(
-        TypeError,
+        InvalidBufferSourceError,
       );
       expect(() => uint8ArrayFromBufferSource("not a buffer" as any)).toThrow(
         "Unsupported BufferSource type",
       );
 
-      expect(() => uint8ArrayFromBufferSource(123 as any)).toThrow(TypeError);
-      expect(() => uint8ArrayFromBufferSource(null as any)).toThrow(TypeError);
+      expect(() => uint8ArrayFromBufferSource(123 as any)).toThrow(
+        InvalidBufferSourceError,
+      );
+      expect(() => uint8ArrayFromBufferSource(null as any)).toThrow(
+        InvalidBufferSourceError,
+      );
       expect(() => uint8ArrayFromBufferSource(undefined as any)).toThrow(
-        TypeError,
+        InvalidBufferSourceError,
       );
-      expect(() => uint8ArrayFromBufferSource({} as any)).toThrow(TypeError);
+      expect(() => uint8ArrayFromBufferSource({} as any)).toThrow(ConduitError);
     });
 
     test("should handle large buffers", () => {
@@ -0,0 +1,208 @@
+import { describe, test, expect } from "bun:test";
+import {
+  BufferReader,
+  CodecError,
+  StreamReader,
+  StreamWriter,
+  array,
+  bytes,
+  constant,
+  cstring,
+  f32le,
+  i16be,
+  lengthPrefixed,
+  optional,
+  string,
+  struct,
+  u8,
+  u16be,
+  u16le,
+  u32be,
+  u64le,
+  utf8,
+  varuint,
+  type Infer,
+} from "../../index";
+import { createCollector } from "./helpers";
+
+async function encode<T>(
+  codec: { encode(writer: StreamWriter, value: T): Promise<void> },
+  value: T,
+): Promise<Uint8Array> {
+  const { stream, bytes } = createCollector();
+  const writer = new StreamWriter(stream);
+  await codec.encode(writer, value);
+  await writer.close();
+  return bytes();
+}
+
+const Point = struct({ x: i16be, y: i16be });
+
+const Header = struct({
+  magic: constant(u32be, 0xcafebabe),
+  version: u8,
+  flags: u8,
+  name: lengthPrefixed(u16le, utf8),
+  timestamp: optional(u64le, (h) => (h.flags & 1) !== 0),
+  count: u8,
+  points: array(Point, "count"),
+});
+
+type Header = Infer<typeof Header>;
+
+describe("Codecs", () => {
+  describe("structs", () => {
+    test("should round-trip a struct with every kind of field", async () => {
+      const header: Header = {
+        magic: 0xcafebabe,
+        version: 2,
+        flags: 1,
+        name: "héllo",
+        timestamp: 1_700_000_000n,
+        count: 2,
+        points: [
+          { x: 1, y: -1 },
+          { x: -300, y: 300 },
+        ],
+      };
+
+      const data = await encode(Header, header);
+      expect([...data.subarray(0, 8)]).toEqual([
+        0xca, 0xfe, 0xba, 0xbe, 0x02, 0x01, 0x06, 0x00,
+      ]);
+      expect(data.length).toBe(4 + 1 + 1 + 2 + 6 + 8 + 1 + 8);
+
+      expect(await Header.decode(StreamReader.from(data))).toEqual(header);
+    });
+
+    test("should leave out optional fields whose condition fails", async () => {
+      const header: Header = {
+        magic: 0xcafebabe,
+        version: 1,
+        flags: 0,
+        name: "",
+        count: 0,
+        points: [],
+      };
+
+      const data = await encode(Header, header);
+      expect(data.length).toBe(4 + 1 + 1 + 2 + 1);
+
+      const decoded = await Header.decode(StreamReader.from(data));
+      expect(decoded).toEqual(header);
+      expect("timestamp" in decoded).toBe(false);
+    });
+
+    test("should decode from a BufferReader", async () => {
+      const Record = struct({
+        id: varuint,
+        label: cstring,
+        payload: lengthPrefixed(u8, bytes),
+        ratio: f32le,
+      });
+
+      const data = await encode(Record, {
+        id: 300,
+        label: "abc",
+        payload: new Uint8Array([9, 8, 7]),
+        ratio: 0.5,
+      });
+      const reader = new BufferReader(data);
+
+      expect(await Record.decode(reader)).toEqual({
+        id: 300,
+        label: "abc",
+        payload: new Uint8Array([9, 8, 7]),
+        ratio: 0.5,
+      });
+      expect(reader.remaining).toBe(0);
+    });
+  });
+
+  describe("composites", () => {
+    test("should read arrays with a fixed or prefixed count", async () => {
+      const Fixed = array(u8, 3);
+      const Prefixed = array(u16be, u8);
+
+      expect(await encode(Fixed, [1, 2, 3])).toEqual(new Uint8Array([1, 2, 3]));
+      const data = await encode(Prefixed, [0x102, 0x304]);
+      expect(data).toEqual(new Uint8Array([2, 0x01, 0x02, 0x03, 0x04]));
+      expect(await Prefixed.decode(StreamReader.from(data))).toEqual([
+        0x102, 0x304,
+      ]);
+    });
+
+    test("should encode strings in other encodings", async () => {
+      const Name = lengthPrefixed(u8, string({ encoding: "utf-16le" }));
+      const data = await encode(Name, "hi");
+
+      expect(data).toEqual(new Uint8Array([4, 0x68, 0x00, 0x69, 0x00]));
+      expect(await Name.decode(StreamReader.from(data))).toBe("hi");
+    });
+  });
+
+  describe("errors", () => {
+    test("should reject a wrong magic value", async () => {
+      const reader = StreamReader.from(
+        new Uint8Array([0x00, 0xde, 0xad, 0xbe, 0xef]),
+      );
+      await reader.skip(1);
+
+      const error = await Header.decode(reader).catch((e) => e);
+      expect(error).toBeInstanceOf(CodecError);
+      expect(error.offset).toBe(1);
+    });
+
+    test("should reject arrays that disagree with their count", async () => {
+      const writer = new StreamWriter(createCollector().stream);
+
+      expect(async () => await array(u8, 2).encode(writer, [1])).toThrow(
+        CodecError,
+      );
+      expect(
+        async () =>
+          await Header.encode(writer, {
+            magic: 0xcafebabe,
+            version: 1,
+            flags: 0,
+            name: "",
+            count: 2,
+            points: [],
+          }),
+      ).toThrow(CodecError);
+    });
+
+    test("should reject a length that does not fit its prefix", async () => {
+      const Name = lengthPrefixed(u8, utf8);
+
+      const error = await encode(Name, "x".repeat(300)).catch((e) => e);
+      expect(error).toBeInstanceOf(CodecError);
+      expect(error.offset).toBe(0);
+      expect(await encode(Name, "x".repeat(255))).toHaveLength(256);
+    });
+
+    test("should reject an item count that does not fit its prefix", async () => {
+      const Items = array(u8, u8);
+
+      expect(async () => await encode(Items, new Array(256).fill(0))).toThrow(
+        CodecError,
+      );
+      expect(async () => await encode(u16be, -1)).toThrow(CodecError);
+      expect(async () => await encode(u16be, 1.5)).toThrow(CodecError);
+    });
+
+    test("should reject a missing optional field whose condition holds", async () => {
+      const Flagged = struct({
+        flags: u8,
+        extra: optional(u8, (f) => f.flags === 1),
+      });
+
+      expect(async () => await encode(Flagged, { flags: 1 })).toThrow(
+        CodecError,
+      );
+      expect(await encode(Flagged, { flags: 1, extra: 5 })).toEqual(
+        new Uint8Array([1, 5]),
+      );
+    });
+  });
+});
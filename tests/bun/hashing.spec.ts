@@ -0,0 +1,230 @@
+import { describe, test, expect } from "bun:test";
+import { createHash } from "node:crypto";
+import { deflateSync } from "node:zlib";
+import {
+  Adler32Checksum,
+  Crc32Checksum,
+  Crc32cChecksum,
+  HashingReader,
+  HashingWriter,
+  IncrementalHashChecksum,
+  StreamReader,
+  StreamWriter,
+} from "../../index";
+import { createCollector } from "./helpers";
+
+const encoder = new TextEncoder();
+
+describe("Checksums", () => {
+  test("should compute the CRC-32 check value", () => {
+    const crc = new Crc32Checksum();
+    crc.update(encoder.encode("1234"));
+    crc.update(encoder.encode("56789"));
+
+    expect(crc.digest()).toBe(0xcbf43926);
+  });
+
+  test("should compute the CRC-32C check value", () => {
+    const crc = new Crc32cChecksum();
+    crc.update(encoder.encode("123456789"));
+
+    expect(crc.digest()).toBe(0xe3069283);
+  });
+
+  test("should compute Adler-32 over long inputs", () => {
+    const adler = new Adler32Checksum();
+    adler.update(encoder.encode("Wikipedia"));
+    expect(adler.digest()).toBe(0x11e60398);
+
+    const data = new Uint8Array(100_000).fill(0xff);
+    const compressed = deflateSync(data);
+    const trailer = new DataView(compressed.buffer, compressed.byteOffset);
+
+    adler.reset();
+    adler.update(data);
+    expect(adler.digest()).toBe(trailer.getUint32(compressed.length - 4));
+  });
+
+  test("should start over after reset", () => {
+    const crc = new Crc32Checksum();
+    crc.update(encoder.encode("garbage"));
+    crc.reset();
+    crc.update(encoder.encode("123456789"));
+
+    expect(crc.digest()).toBe(0xcbf43926);
+  });
+
+  test("should adapt incremental hashes", () => {
+    const sha = new IncrementalHashChecksum(() => createHash("sha256"));
+    sha.update(encoder.encode("abc"));
+
+    const expected =
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad";
+    expect(sha.digest().toString("hex")).toBe(expected);
+    // copy() keeps the hash usable after a digest
+    expect(sha.digest().toString("hex")).toBe(expected);
+
+    sha.reset();
+    expect(sha.digest().toString("hex")).toBe(
+      createHash("sha256").digest("hex"),
+    );
+  });
+});
+
+describe("HashingReader", () => {
+  test("should verify a PNG-style chunk CRC", async () => {
+    const type = encoder.encode("IDAT");
+    const data = encoder.encode("pixels");
+    const crc = new Crc32Checksum();
+    crc.update(type);
+    crc.update(data);
+
+    const chunk = new Uint8Array(4 + type.length + data.length + 4);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    chunk.set(type, 4);
+    chunk.set(data, 8);
+    view.setUint32(8 + data.length, crc.digest());
+
+    const reader = StreamReader.from(chunk);
+    const hashing = new HashingReader(reader, new Crc32Checksum());
+
+    const length = await reader.readUint32();
+    hashing.resetChecksum();
+    await hashing.read(4);
+    await hashing.read(length);
+    const actual = hashing.digest();
+
+    expect(await reader.readUint32()).toBe(actual);
+  });
+
+  test("should observe every way of consuming bytes", async () => {
+    const bytes = encoder.encode("ab\0line\r\nxyzrest");
+    const reader = StreamReader.fromChunks([
+      bytes.subarray(0, 3),
+      bytes.subarray(3),
+    ]);
+    const hashing = new HashingReader(reader, new Crc32Checksum());
+
+    await hashing.readCString();
+    await reader.readLine();
+    await hashing.skip(1);
+    await hashing.readUint16();
+    for await (const _ of hashing.limit(2)) {
+      // consumed by iteration
+    }
+    await hashing.readUntilEof();
+
+    const expected = new Crc32Checksum();
+    expected.update(bytes);
+    expect(hashing.digest()).toBe(expected.digest());
+  });
+
+  test("should include skipped bytes that were never buffered", async () => {
+    const reader = StreamReader.fromChunks([
+      Uint8Array.of(1, 2),
+      Uint8Array.of(3, 4, 5),
+    ]);
+    const hashing = new HashingReader(reader, new Adler32Checksum());
+
+    await hashing.skip(4);
+
+    const expected = new Adler32Checksum();
+    expected.update(new Uint8Array([1, 2, 3, 4]));
+    expect(hashing.digest()).toBe(expected.digest());
+  });
+
+  test("should include varint bytes only once consumed", async () => {
+    const reader = StreamReader.from(new Uint8Array([0xac, 0x02, 0x05]));
+    const hashing = new HashingReader(reader, new Crc32Checksum());
+
+    await hashing.peek(3);
+    expect(await hashing.readVarUint()).toBe(300);
+
+    const expected = new Crc32Checksum();
+    expected.update(new Uint8Array([0xac, 0x02]));
+    expect(hashing.digest()).toBe(expected.digest());
+  });
+
+  test("should keep the limit of a limited reader", async () => {
+    const reader = StreamReader.from(new Uint8Array([1, 2, 3, 4]));
+    const hashing = new HashingReader(reader.limit(2), new Crc32Checksum());
+
+    expect(await hashing.readUntilEof()).toEqual(new Uint8Array([1, 2]));
+    expect(await reader.readUint8()).toBe(3);
+  });
+
+  test("should rewind to a mark and hash re-read bytes again", async () => {
+    const reader = StreamReader.from(new Uint8Array([1, 2, 3]));
+    const hashing = new HashingReader(reader, new Crc32Checksum());
+
+    const mark = hashing.mark();
+    await hashing.read(2);
+    hashing.reset(mark);
+    expect(hashing.bytesRead).toBe(0);
+    expect(await hashing.read(3)).toEqual(new Uint8Array([1, 2, 3]));
+    hashing.release(mark);
+
+    const expected = new Crc32Checksum();
+    expected.update(new Uint8Array([1, 2, 1, 2, 3]));
+    expect(hashing.digest()).toBe(expected.digest());
+  });
+
+  test("should detach without closing the parent when disposed", async () => {
+    const reader = StreamReader.from(new Uint8Array([1, 2, 3, 4]));
+    const checksum = new Crc32Checksum();
+
+    {
+      await using hashing = new HashingReader(reader, checksum);
+      await hashing.read(2);
+    }
+    expect(await reader.read(2)).toEqual(new Uint8Array([3, 4]));
+
+    const expected = new Crc32Checksum();
+    expected.update(new Uint8Array([1, 2]));
+    expect(checksum.digest()).toBe(expected.digest());
+  });
+
+  test("should stop observing after detach", async () => {
+    const reader = StreamReader.from(new Uint8Array([1, 2, 3, 4]));
+    const hashing = new HashingReader(reader, new Crc32Checksum());
+
+    await hashing.read(2);
+    hashing.detach();
+    await hashing.read(2);
+
+    const expected = new Crc32Checksum();
+    expected.update(new Uint8Array([1, 2]));
+    expect(hashing.digest()).toBe(expected.digest());
+  });
+});
+
+describe("HashingWriter", () => {
+  test("should checksum everything written through it", async () => {
+    const writer = new StreamWriter(createCollector().stream);
+    const hashing = new HashingWriter(writer, new Crc32Checksum());
+
+    await hashing.writeString("1234");
+    await writer.write(new Uint16Array([0, 0x3635]).subarray(1));
+    await hashing.write(encoder.encode("789").buffer);
+
+    expect(hashing.digest()).toBe(0xcbf43926);
+    expect(writer.bytesWritten).toBe(9);
+  });
+
+  test("should write a zlib-style trailer over one region", async () => {
+    const { stream, bytes } = createCollector();
+    const writer = new StreamWriter(stream);
+    const hashing = new HashingWriter(writer, new Adler32Checksum());
+
+    await writer.writeUint16(0x78_01);
+    hashing.resetChecksum();
+    await hashing.writeUint32(0xdeadbeef);
+    await writer.writeUint32(hashing.digest());
+
+    const expected = new Adler32Checksum();
+    expected.update(new Uint8Array([0xde, 0xad, 0xbe, 0xef]));
+    const written = new DataView(bytes().buffer);
+    expect(written.getUint32(6)).toBe(expected.digest());
+  });
+});
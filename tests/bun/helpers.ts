@@ -0,0 +1,33 @@
+/** A WritableStream that keeps a copy of every chunk written to it */
+export function createCollector() {
+  const chunks: Uint8Array[] = [];
+  const stream = new WritableStream<Uint8Array>({
+    write(chunk) {
+      chunks.push(chunk.slice());
+    },
+  });
+
+  return {
+    stream,
+    bytes: () => new Uint8Array(chunks.flatMap((chunk) => [...chunk])),
+  };
+}
+
+/**
+ * A ReadableStream that produces one chunk per pull, so the reader only sees
+ * a chunk once it asks for more, unlike `StreamReader.fromChunks`
+ */
+export function createChunkedStream(
+  chunks: number[][],
+): ReadableStream<Uint8Array> {
+  let chunkIndex = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (chunkIndex < chunks.length) {
+        controller.enqueue(new Uint8Array(chunks[chunkIndex++]));
+      } else {
+        controller.close();
+      }
+    },
+  });
+}
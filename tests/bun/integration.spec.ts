@@ -1,5 +1,17 @@
-import { describe, test, expect } from "bun:test";
-import { StreamReader, StreamWriter, Endian } from "../../index";
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import {
+  StreamReader,
+  StreamWriter,
+  Endian,
+  BitOpsValueReader,
+  BitReader,
+  BitWriter,
+  BitOrder,
+  type StringEncoding,
+  DataViewValueReader,
+  PerformanceValueReader,
+  type ValueReader,
+} from "../../index";
 
 describe("Integration Tests - Round-trip Read/Write", () => {
   async function createWriterAndCollectData(): Promise<{
@@ -189,6 +201,330 @@ describe("Integration Tests - Round-trip Read/Write", () => {
     });
   });
 
+  describe("floating point", () => {
+    const valueReaders: [string, () => ValueReader][] = [
+      ["BitOpsValueReader", () => new BitOpsValueReader()],
+      ["DataViewValueReader", () => new DataViewValueReader()],
+      ["PerformanceValueReader", () => new PerformanceValueReader()],
+    ];
+
+    function createReader(data: Uint8Array, valueReader: ValueReader) {
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(data);
+          controller.close();
+        },
+      });
+      return new StreamReader(stream, valueReader);
+    }
+
+    const float16Values = [
+      0,
+      -0,
+      1,
+      -2,
+      0.5,
+      65504,
+      -65504,
+      2 ** -14, // smallest normal
+      2 ** -24, // smallest subnormal
+      3 * 2 ** -24,
+      Infinity,
+      -Infinity,
+      NaN,
+    ];
+
+    const float32Values = [
+      0,
+      -0,
+      1.5,
+      -1.5,
+      Math.fround(Math.PI),
+      3.4028234663852886e38, // largest finite
+      1.1754943508222875e-38, // smallest normal
+      1.401298464324817e-45, // smallest subnormal
+      Infinity,
+      -Infinity,
+      NaN,
+    ];
+
+    const float64Values = [
+      0,
+      -0,
+      Math.PI,
+      -Math.E,
+      Number.MAX_VALUE,
+      2.2250738585072014e-308, // smallest normal
+      2.2250738585072009e-308, // largest subnormal
+      Number.MIN_VALUE,
+      Infinity,
+      -Infinity,
+      NaN,
+    ];
+
+    for (const [name, createValueReader] of valueReaders) {
+      describe(name, () => {
+        for (const endian of [Endian.Big, Endian.Little]) {
+          const endianName = endian === Endian.Big ? "big" : "little";
+
+          test(`should round-trip float16 values (${endianName}-endian)`, async () => {
+            const { writer, getData } = await createWriterAndCollectData();
+
+            for (const value of float16Values) {
+              await writer.writeFloat16(value, endian);
+            }
+            await writer.close();
+
+            const reader = createReader(getData(), createValueReader());
+            for (const expected of float16Values) {
+              expect(await reader.readFloat16(endian)).toBe(expected);
+            }
+          });
+
+          test(`should round-trip float32 values (${endianName}-endian)`, async () => {
+            const { writer, getData } = await createWriterAndCollectData();
+
+            for (const value of float32Values) {
+              await writer.writeFloat32(value, endian);
+            }
+            await writer.close();
+
+            const reader = createReader(getData(), createValueReader());
+            for (const expected of float32Values) {
+              expect(await reader.readFloat32(endian)).toBe(expected);
+            }
+          });
+
+          test(`should round-trip float64 values (${endianName}-endian)`, async () => {
+            const { writer, getData } = await createWriterAndCollectData();
+
+            for (const value of float64Values) {
+              await writer.writeFloat64(value, endian);
+            }
+            await writer.close();
+
+            const reader = createReader(getData(), createValueReader());
+            for (const expected of float64Values) {
+              expect(await reader.readFloat64(endian)).toBe(expected);
+            }
+          });
+        }
+      });
+    }
+
+    describe("without native float16 support", () => {
+      const { getFloat16, setFloat16 } = DataView.prototype;
+
+      beforeAll(() => {
+        delete (DataView.prototype as any).getFloat16;
+        delete (DataView.prototype as any).setFloat16;
+      });
+
+      afterAll(() => {
+        DataView.prototype.getFloat16 = getFloat16;
+        DataView.prototype.setFloat16 = setFloat16;
+      });
+
+      test("should round-trip float16 values", async () => {
+        const { writer, getData } = await createWriterAndCollectData();
+
+        for (const value of float16Values) {
+          await writer.writeFloat16(value, Endian.Little);
+        }
+        await writer.close();
+
+        const reader = createReader(getData(), new DataViewValueReader());
+        for (const expected of float16Values) {
+          expect(await reader.readFloat16(Endian.Little)).toBe(expected);
+        }
+      });
+
+      test("should round float16 values to nearest even", async () => {
+        const { writer, getData } = await createWriterAndCollectData();
+
+        await writer.writeFloat16(1 / 3);
+        await writer.writeFloat16(1 + 2 ** -11); // tie, rounds down to 1
+        await writer.writeFloat16(1 + 3 * 2 ** -11); // tie, rounds up
+        await writer.writeFloat16(65520); // tie past the largest finite
+        await writer.writeFloat16(2 ** -26); // rounds to zero
+        await writer.close();
+
+        expect(getData()).toEqual(
+          new Uint8Array([
+            0x35, 0x55, 0x3c, 0x00, 0x3c, 0x02, 0x7c, 0x00, 0x00, 0x00,
+          ]),
+        );
+      });
+    });
+  });
+
+  describe("arbitrary-width integers", () => {
+    test("should round-trip every byte length from 1 to 16", async () => {
+      const { writer, getData } = await createWriterAndCollectData();
+      const values: [number, number | bigint, number | bigint][] = [];
+
+      for (let byteLength = 1; byteLength <= 16; byteLength++) {
+        const bits = BigInt(byteLength * 8);
+        let max: number | bigint = (1n << bits) - 1n;
+        let min: number | bigint = -(1n << (bits - 1n));
+        if (byteLength <= 6) {
+          max = Number(max);
+          min = Number(min);
+        }
+
+        values.push([byteLength, max, min]);
+        await writer.writeUintN(max, byteLength, Endian.Little);
+        await writer.writeIntN(min, byteLength, Endian.Big);
+      }
+      await writer.close();
+
+      const reader = StreamReader.from(getData());
+      for (const [byteLength, max, min] of values) {
+        expect(await reader.readUintN(byteLength, Endian.Little)).toBe(max);
+        expect(await reader.readIntN(byteLength, Endian.Big)).toBe(min);
+      }
+    });
+  });
+
+  describe("value readers", () => {
+    const valueReaders: [string, () => ValueReader][] = [
+      ["BitOpsValueReader", () => new BitOpsValueReader()],
+      ["DataViewValueReader", () => new DataViewValueReader()],
+      ["PerformanceValueReader", () => new PerformanceValueReader()],
+    ];
+
+    for (const [name, createValueReader] of valueReaders) {
+      test(`${name} should decode values at an offset of a view`, async () => {
+        const { writer, getData } = await createWriterAndCollectData();
+        await writer.writeUint8(0xaa); // padding before the view
+        await writer.writeUint8(0xbb); // padding before the values
+        await writer.writeInt8(-2);
+        await writer.writeInt16(-300, Endian.Little);
+        await writer.writeUint32(0xdeadbeef);
+        await writer.writeInt64(-5n, Endian.Little);
+        await writer.writeFloat32(1.5);
+        await writer.writeFloat64(-Math.PI, Endian.Little);
+        await writer.close();
+
+        const bytes = getData().subarray(1);
+        const reader = createValueReader();
+
+        expect(reader.readInt8(bytes, 1)).toBe(-2);
+        expect(reader.readInt16(bytes, 2, Endian.Little)).toBe(-300);
+        expect(reader.readUint32(bytes, 4, Endian.Big)).toBe(0xdeadbeef);
+        expect(reader.readInt64(bytes, 8, Endian.Little)).toBe(-5n);
+        expect(reader.readFloat32(bytes, 16, Endian.Big)).toBe(1.5);
+        expect(reader.readFloat64(bytes, 20, Endian.Little)).toBe(-Math.PI);
+
+        // A different buffer after the first must not reuse its bytes
+        const other = new Uint8Array([0x00, 0x00, 0x01, 0x02]);
+        expect(reader.readUint16(other, 2, Endian.Big)).toBe(0x0102);
+        expect(reader.readUint32(bytes, 4, Endian.Big)).toBe(0xdeadbeef);
+      });
+    }
+  });
+
+  describe("varints", () => {
+    test("should round-trip unsigned and signed varints", async () => {
+      const { writer, getData } = await createWriterAndCollectData();
+      const values = [
+        0,
+        1,
+        127,
+        128,
+        -1,
+        -64,
+        -65,
+        2 ** 31,
+        -(2 ** 31),
+        Number.MAX_SAFE_INTEGER,
+        Number.MIN_SAFE_INTEGER,
+      ];
+
+      for (const value of values) {
+        if (value >= 0) {
+          await writer.writeVarUint(value);
+        }
+        await writer.writeVarInt(value);
+        await writer.writeZigZag(value);
+      }
+      await writer.close();
+
+      const reader = StreamReader.from(getData());
+      for (const expected of values) {
+        if (expected >= 0) {
+          expect(await reader.readVarUint()).toBe(expected);
+        }
+        expect(await reader.readVarInt()).toBe(expected);
+        expect(await reader.readZigZagBigInt()).toBe(BigInt(expected));
+      }
+    });
+
+    test("should round-trip 64-bit bigint varints", async () => {
+      const { writer, getData } = await createWriterAndCollectData();
+      const unsigned = [0n, 1n << 63n, (1n << 64n) - 1n];
+      const signed = [-(1n << 63n), (1n << 63n) - 1n, -1n, 0n];
+
+      for (const value of unsigned) {
+        await writer.writeVarUint(value);
+      }
+      for (const value of signed) {
+        await writer.writeVarInt(value);
+        await writer.writeZigZag(value);
+      }
+      await writer.close();
+
+      const reader = StreamReader.from(getData());
+      for (const expected of unsigned) {
+        expect(await reader.readVarUintBigInt()).toBe(expected);
+      }
+      for (const expected of signed) {
+        expect(await reader.readVarIntBigInt()).toBe(expected);
+        expect(await reader.readZigZagBigInt()).toBe(expected);
+      }
+    });
+  });
+
+  describe("bit-level operations", () => {
+    for (const bitOrder of [BitOrder.MsbFirst, BitOrder.LsbFirst]) {
+      const orderName = bitOrder === BitOrder.MsbFirst ? "MSB" : "LSB";
+
+      test(`should round-trip bit fields (${orderName}-first)`, async () => {
+        const { writer, getData } = await createWriterAndCollectData();
+        const fields: [number | bigint, number][] = [
+          [1, 1],
+          [5, 3],
+          [0x1fff, 13],
+          [0, 7],
+          [Number.MAX_SAFE_INTEGER, 53],
+          [0xfedcba9876543210n, 64],
+          [3, 2],
+        ];
+
+        const bitWriter = new BitWriter(writer, bitOrder);
+        for (const [value, count] of fields) {
+          await bitWriter.writeBits(value, count);
+        }
+        await bitWriter.flush();
+        await writer.writeUint16(0xbeef);
+        await writer.close();
+
+        const streamReader = StreamReader.from(getData());
+        const bitReader = new BitReader(streamReader, bitOrder);
+        for (const [value, count] of fields) {
+          const actual =
+            typeof value === "bigint"
+              ? await bitReader.readBitsBigInt(count)
+              : await bitReader.readBits(count);
+          expect(actual).toBe(value);
+        }
+        bitReader.alignToByte();
+
+        expect(await streamReader.readUint16()).toBe(0xbeef);
+      });
+    }
+  });
+
   describe("string operations", () => {
     test("should round-trip ASCII strings", async () => {
       const { writer, getData } = await createWriterAndCollectData();
@@ -244,6 +580,37 @@ describe("Integration Tests - Round-trip Read/Write", () => {
     });
   });
 
+  describe("string encodings", () => {
+    const cases: [StringEncoding, string[]][] = [
+      ["utf-8", ["Hello", "Grüße, 世界 🌍", ""]],
+      ["utf-16le", ["Hello", "Grüße, 世界 🌍", ""]],
+      ["utf-16be", ["Hello", "Grüße, 世界 🌍", ""]],
+      ["latin1", ["Hello", "Grüße, señor", "\x80\x9f\xa0\xff"]],
+      ["windows-1252", ["Hello", "Grüße, señor", "€ “quoted” – Œuvre ™"]],
+    ];
+
+    for (const [encoding, strings] of cases) {
+      test(`should round-trip ${encoding} strings`, async () => {
+        const { writer, getData } = await createWriterAndCollectData();
+        const lengths: number[] = [];
+
+        for (const str of strings) {
+          lengths.push(await writer.writeString(str, { encoding }));
+        }
+        await writer.close();
+
+        const reader = StreamReader.from(getData());
+        for (let i = 0; i < strings.length; i++) {
+          const actual = await reader.readString(lengths[i], {
+            encoding,
+            fatal: true,
+          });
+          expect(actual).toBe(strings[i]);
+        }
+      });
+    }
+  });
+
   describe("raw bytes operations", () => {
     test("should round-trip raw bytes", async () => {
       const { writer, getData } = await createWriterAndCollectData();
@@ -0,0 +1,225 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  SeekableReader,
+  StreamReader,
+  Endian,
+  BitOpsValueReader,
+  RangeOverflowError,
+  StreamClosedError,
+  UnexpectedEofError,
+} from "../../index";
+
+function createData(length: number): Uint8Array {
+  return Uint8Array.from({ length }, (_, i) => i & 0xff);
+}
+
+class CountingBlob extends Blob {
+  public slices = 0;
+
+  override slice(start?: number, end?: number, contentType?: string): Blob {
+    this.slices++;
+    return super.slice(start, end, contentType);
+  }
+}
+
+describe("SeekableReader", () => {
+  let directory: string;
+  let path: string;
+
+  beforeAll(async () => {
+    directory = mkdtempSync(join(tmpdir(), "seekable-reader-"));
+    path = join(directory, "data.bin");
+    await Bun.write(path, createData(1000));
+  });
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe("reading", () => {
+    test("should read a file with the typed API", async () => {
+      const reader = new SeekableReader(Bun.file(path), undefined, {
+        pageSize: 64,
+      });
+
+      expect(reader.size).toBe(1000);
+      expect(await reader.readUint8()).toBe(0);
+      expect(await reader.readUint16(Endian.Little)).toBe(0x0201);
+      expect(await reader.readUint32()).toBe(0x03040506);
+      expect(reader.tell()).toBe(7);
+    });
+
+    test("should read across page boundaries", async () => {
+      const reader = new SeekableReader(Bun.file(path), undefined, {
+        pageSize: 16,
+      });
+
+      reader.seek(14);
+      expect(await reader.read(20)).toEqual(createData(34).subarray(14));
+    });
+
+    test("should read until the end of the blob", async () => {
+      const reader = new SeekableReader(
+        new Blob([createData(100)]),
+        undefined,
+        {
+          pageSize: 32,
+        },
+      );
+
+      reader.seek(90);
+      expect(await reader.readUntilEof()).toEqual(createData(100).subarray(90));
+      expect(async () => await reader.readUint8()).toThrow(UnexpectedEofError);
+    });
+
+    test("should use the given value reader", async () => {
+      const reader = new SeekableReader(
+        new Blob([new Uint8Array([0x3c, 0x00])]),
+        new BitOpsValueReader(),
+      );
+
+      expect(await reader.readFloat16()).toBe(1);
+    });
+
+    test("should be usable as a StreamReader", async () => {
+      const reader: StreamReader = new SeekableReader(Bun.file(path));
+
+      expect(reader).toBeInstanceOf(StreamReader);
+      expect(await reader.readUint8()).toBe(0);
+    });
+  });
+
+  describe("seeking", () => {
+    test("should seek backwards after reaching the end", async () => {
+      const reader = new SeekableReader(Bun.file(path), undefined, {
+        pageSize: 128,
+      });
+
+      reader.seek(998);
+      expect(await reader.readUint16()).toBe(0xe6e7);
+      expect(async () => await reader.readUint8()).toThrow(UnexpectedEofError);
+
+      reader.seek(0);
+      expect(reader.tell()).toBe(0);
+      expect(await reader.readUint16()).toBe(0x0001);
+    });
+
+    test("should read a trailer and then jump to its offset", async () => {
+      const data = new Uint8Array(64);
+      data.set([0xca, 0xfe], 20);
+      new DataView(data.buffer).setUint32(60, 20);
+
+      const reader = new SeekableReader(new Blob([data]), undefined, {
+        pageSize: 16,
+      });
+
+      reader.seek(reader.size - 4);
+      const offset = await reader.readUint32();
+      reader.seek(offset);
+
+      expect(await reader.readUint16()).toBe(0xcafe);
+      expect(reader.tell()).toBe(22);
+    });
+
+    test("should accept bigint offsets and the end position", async () => {
+      const reader = new SeekableReader(new Blob([createData(10)]));
+
+      reader.seek(5n);
+      expect(await reader.readUint8()).toBe(5);
+
+      reader.seek(10);
+      expect(await reader.readUntilEof()).toEqual(new Uint8Array(0));
+    });
+
+    test("should reject offsets outside the blob", () => {
+      const reader = new SeekableReader(new Blob([createData(10)]));
+
+      expect(() => reader.seek(11)).toThrow(RangeOverflowError);
+      expect(() => reader.seek(-1)).toThrow(RangeError);
+      expect(() => reader.seek(1.5)).toThrow(RangeError);
+    });
+
+    test("should reject seeking after close", async () => {
+      const reader = new SeekableReader(new Blob([createData(10)]));
+      await reader.close();
+
+      expect(() => reader.seek(0)).toThrow(StreamClosedError);
+    });
+
+    test("should keep limited sections in step with the position", async () => {
+      const reader = new SeekableReader(Bun.file(path), undefined, {
+        pageSize: 32,
+      });
+
+      reader.seek(100);
+      const section = reader.limit(4);
+      expect(await section.readUntilEof()).toEqual(
+        new Uint8Array([100, 101, 102, 103]),
+      );
+      expect(reader.tell()).toBe(104);
+    });
+  });
+
+  describe("page cache", () => {
+    test("should only fetch the pages that are read", async () => {
+      const blob = new CountingBlob([createData(1000)]);
+      const reader = new SeekableReader(blob, undefined, { pageSize: 100 });
+
+      reader.seek(500);
+      await reader.readUint32();
+
+      expect(blob.slices).toBe(1);
+    });
+
+    test("should reuse cached pages when seeking back", async () => {
+      const blob = new CountingBlob([createData(1000)]);
+      const reader = new SeekableReader(blob, undefined, { pageSize: 100 });
+
+      await reader.read(150);
+      reader.seek(10);
+      await reader.read(150);
+
+      expect(blob.slices).toBe(2);
+    });
+
+    test("should evict the least recently used page", async () => {
+      const blob = new CountingBlob([createData(1000)]);
+      const reader = new SeekableReader(blob, undefined, {
+        pageSize: 100,
+        maxCachedPages: 2,
+      });
+
+      for (const offset of [0, 100, 0, 200, 0, 100]) {
+        reader.seek(offset);
+        await reader.readUint8();
+      }
+
+      // 0, 100, 200 and the evicted 100 are fetched; 0 stays cached
+      expect(blob.slices).toBe(4);
+    });
+
+    test("should not expose cached pages to mutation", async () => {
+      const reader = new SeekableReader(new Blob([createData(10)]));
+
+      const first = await reader.read(4);
+      first.fill(0xff);
+
+      reader.seek(0);
+      expect(await reader.read(4)).toEqual(new Uint8Array([0, 1, 2, 3]));
+    });
+
+    test("should reject invalid cache options", () => {
+      const blob = new Blob([createData(10)]);
+
+      expect(
+        () => new SeekableReader(blob, undefined, { pageSize: 0 }),
+      ).toThrow(RangeError);
+      expect(
+        () => new SeekableReader(blob, undefined, { maxCachedPages: 0 }),
+      ).toThrow(RangeError);
+    });
+  });
+});
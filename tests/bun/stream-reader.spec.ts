@@ -1,5 +1,20 @@
 import { describe, test, expect } from "bun:test";
-import { StreamReader, Endian } from "../../index";
+import { Readable } from "node:stream";
+import {
+  StreamReader,
+  Endian,
+  VarIntError,
+  ConduitError,
+  UnexpectedEofError,
+  RangeOverflowError,
+  StreamClosedError,
+  AbortError,
+  BitOpsValueReader,
+  InvalidBufferSourceError,
+  BufferLimitError,
+  StringEncodingError,
+} from "../../index";
+import { createChunkedStream } from "./helpers";
 
 describe("StreamReader", () => {
   describe("construction", () => {
@@ -31,6 +46,120 @@ describe("StreamReader", () => {
     });
   });
 
+  describe("factories", () => {
+    test("should pass a custom value reader through from()", async () => {
+      const reader = StreamReader.from(
+        new Uint8Array([0x3c, 0x00]),
+        new BitOpsValueReader(),
+      );
+
+      expect(await reader.readFloat16()).toBe(1);
+    });
+
+    test("should create from an array of chunks", async () => {
+      const reader = StreamReader.fromChunks([
+        new Uint8Array([1, 2]),
+        new Uint8Array([3]).buffer,
+        new Uint8Array(0),
+        new Uint8Array([4]),
+      ]);
+
+      expect(await reader.readUint32()).toBe(0x01020304);
+      expect(await reader.readUntilEof()).toEqual(new Uint8Array(0));
+    });
+
+    test("should create from a Blob", async () => {
+      const reader = StreamReader.fromBlob(
+        new Blob([new Uint8Array([1, 2]), new Uint8Array([3, 4])]),
+      );
+
+      expect(await reader.readUint32(Endian.Little)).toBe(0x04030201);
+    });
+
+    test("should create from a Response", async () => {
+      const reader = StreamReader.fromResponse(
+        new Response(new Uint8Array([0x00, 0x2a])),
+      );
+
+      expect(await reader.readUint16()).toBe(42);
+    });
+
+    test("should read a Response without a body as empty", async () => {
+      const reader = StreamReader.fromResponse(
+        new Response(null, { status: 204 }),
+      );
+
+      expect(await reader.readUntilEof()).toEqual(new Uint8Array(0));
+    });
+
+    test("should reject a Response whose body was used", async () => {
+      const response = new Response(new Uint8Array([1]));
+      await response.arrayBuffer();
+
+      expect(() => StreamReader.fromResponse(response)).toThrow(
+        StreamClosedError,
+      );
+    });
+
+    test("should create from an async iterable", async () => {
+      async function* generate() {
+        yield new Uint8Array([1, 2]);
+        yield new Uint8Array([3, 4]);
+      }
+
+      const reader = StreamReader.fromAsyncIterable(generate());
+
+      expect(await reader.readUint8()).toBe(1);
+      expect(await reader.readUint16()).toBe(0x0203);
+      expect(await reader.readUntilEof()).toEqual(new Uint8Array([4]));
+    });
+
+    test("should pull lazily from an iterable and return it on cancel", async () => {
+      let produced = 0;
+      let returned = false;
+      function* generate() {
+        try {
+          while (true) {
+            produced++;
+            yield new Uint8Array([produced]);
+          }
+        } finally {
+          returned = true;
+        }
+      }
+
+      const reader = StreamReader.fromAsyncIterable(generate());
+      expect(await reader.readUint8()).toBe(1);
+      expect(produced).toBeLessThan(4);
+
+      await reader.close();
+      await reader.stream.cancel();
+      expect(returned).toBe(true);
+    });
+
+    test("should create from a Node.js Readable", async () => {
+      const readable = Readable.from([
+        Buffer.from([1, 2, 3]),
+        Buffer.from([4, 5]),
+      ]);
+
+      const reader = StreamReader.fromNodeReadable(readable);
+
+      expect(await reader.readUint32()).toBe(0x01020304);
+      expect(await reader.readUint8()).toBe(5);
+    });
+
+    test("should reject string chunks from a Node.js Readable", async () => {
+      const readable = Readable.from(["text"], { objectMode: true });
+
+      const reader = StreamReader.fromNodeReadable(readable);
+
+      expect(async () => await reader.readUint8()).toThrow(
+        InvalidBufferSourceError,
+      );
+    });
+  });
+
   describe("basic reading", () => {
     test("should read exact number of bytes", async () => {
       const data = new Uint8Array([1, 2, 3, 4, 5]);
@@ -41,61 +170,1006 @@ describe("StreamReader", () => {
       expect(reader.bytesRead).toBe(3);
     });
 
-    test("should read remaining bytes after partial read", async () => {
-      const data = new Uint8Array([1, 2, 3, 4, 5]);
-      const reader = StreamReader.from(data);
+    test("should read remaining bytes after partial read", async () => {
+      const data = new Uint8Array([1, 2, 3, 4, 5]);
+      const reader = StreamReader.from(data);
+
+      await reader.read(2);
+      const result = await reader.read(3);
+      expect(result).toEqual(new Uint8Array([3, 4, 5]));
+      expect(reader.bytesRead).toBe(5);
+    });
+
+    test("should throw error when reading beyond available data", async () => {
+      const data = new Uint8Array([1, 2, 3]);
+      const reader = StreamReader.from(data);
+
+      expect(async () => await reader.read(5)).toThrow(
+        "Unexpected end of stream",
+      );
+    });
+
+    test("should handle reading with bigint length", async () => {
+      const data = new Uint8Array([1, 2, 3, 4, 5]);
+      const reader = StreamReader.from(data);
+
+      const result = await reader.read(BigInt(3));
+      expect(result).toEqual(new Uint8Array([1, 2, 3]));
+      expect(reader.bytesRead).toBe(3);
+    });
+  });
+
+  describe("chunked buffering", () => {
+    test("should read values spanning many small chunks", async () => {
+      const chunks = Array.from({ length: 64 }, (_, i) => [i * 2, i * 2 + 1]);
+      const reader = new StreamReader(createChunkedStream(chunks));
+
+      const result = await reader.read(100);
+      expect(result).toEqual(Uint8Array.from({ length: 100 }, (_, i) => i));
+      expect(await reader.readUint16(Endian.Big)).toBe(0x6465);
+      expect(reader.bytesRead).toBe(102);
+      expect(await reader.readUntilEof()).toEqual(
+        Uint8Array.from({ length: 26 }, (_, i) => i + 102),
+      );
+    });
+
+    test("should return a view when a read fits inside one chunk", async () => {
+      const data = new Uint8Array([1, 2, 3, 4, 5, 6]);
+      const reader = StreamReader.from(data);
+
+      await reader.read(2);
+      const result = await reader.read(3);
+      expect(result).toEqual(new Uint8Array([3, 4, 5]));
+      expect(result.buffer).toBe(data.buffer);
+      expect(result.byteOffset).toBe(2);
+    });
+
+    test("should interleave partial and spanning reads", async () => {
+      const reader = new StreamReader(
+        createChunkedStream([[1, 2, 3], [4], [5, 6, 7, 8], [9]]),
+      );
+
+      expect(await reader.read(2)).toEqual(new Uint8Array([1, 2]));
+      expect(await reader.read(3)).toEqual(new Uint8Array([3, 4, 5]));
+      expect(await reader.read(1)).toEqual(new Uint8Array([6]));
+      expect(await reader.read(3)).toEqual(new Uint8Array([7, 8, 9]));
+      expect(reader.bytesRead).toBe(9);
+    });
+
+    test("should only copy the bytes of a value spanning chunks", async () => {
+      const second = new Uint8Array([0x04, 0x05, 0x06]);
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(new Uint8Array([0x01, 0x02, 0x03]));
+          controller.enqueue(second);
+          controller.close();
+        },
+      });
+      const reader = new StreamReader(stream);
+
+      await reader.read(2);
+      expect(await reader.peekUint16(Endian.Big)).toBe(0x0304);
+      expect(await reader.readUint16(Endian.Big)).toBe(0x0304);
+
+      const rest = await reader.read(2);
+      expect(rest).toEqual(new Uint8Array([0x05, 0x06]));
+      expect(rest.buffer).toBe(second.buffer);
+      expect(reader.bytesRead).toBe(6);
+    });
+
+    test("should give concurrent reads separate chunks", async () => {
+      const reader = new StreamReader(createChunkedStream([[1], [2], [3, 4]]));
+
+      expect(
+        await Promise.all([
+          reader.readUint8(),
+          reader.readUint8(),
+          reader.readUint16(Endian.Big),
+        ]),
+      ).toEqual([1, 2, 0x0304]);
+      expect(reader.bytesRead).toBe(4);
+    });
+  });
+
+  describe("peeking", () => {
+    test("should peek bytes without advancing", async () => {
+      const reader = StreamReader.from(new Uint8Array([1, 2, 3, 4, 5]));
+
+      expect(await reader.peek(3)).toEqual(new Uint8Array([1, 2, 3]));
+      expect(reader.bytesRead).toBe(0);
+      expect(await reader.read(2)).toEqual(new Uint8Array([1, 2]));
+      expect(await reader.peek(BigInt(2))).toEqual(new Uint8Array([3, 4]));
+      expect(reader.bytesRead).toBe(2);
+    });
+
+    test("should peek across chunk boundaries", async () => {
+      const reader = new StreamReader(
+        createChunkedStream([[0x12], [0x34, 0x56], [0x78], [0x9a]]),
+      );
+
+      expect(await reader.peekUint32(Endian.Big)).toBe(0x12345678);
+      expect(await reader.peekUint16(Endian.Little)).toBe(0x3412);
+      expect(reader.bytesRead).toBe(0);
+      expect(await reader.readUint32(Endian.Big)).toBe(0x12345678);
+      expect(await reader.peekUint8()).toBe(0x9a);
+      expect(await reader.readUint8()).toBe(0x9a);
+      expect(reader.bytesRead).toBe(5);
+    });
+
+    test("should peek typed values", async () => {
+      const reader = new StreamReader(
+        createChunkedStream([
+          [0xff, 0xff],
+          [0xff, 0xfe, 0x00, 0x00],
+          [0x00, 0x01],
+        ]),
+      );
+
+      expect(await reader.peekInt8()).toBe(-1);
+      expect(await reader.peekInt16()).toBe(-1);
+      expect(await reader.peekInt32()).toBe(-2);
+      expect(await reader.peekUint64()).toBe(BigInt("0xfffffffe00000001"));
+      expect(await reader.peekInt64(Endian.Little)).toBe(
+        BigInt("0x01000000feffffff"),
+      );
+      expect(reader.bytesRead).toBe(0);
+    });
+
+    test("should throw when peeking beyond stream end", async () => {
+      const reader = new StreamReader(createChunkedStream([[1], [2]]));
+
+      expect(async () => await reader.peek(3)).toThrow(
+        "Unexpected end of stream",
+      );
+    });
+  });
+
+  describe("skipping", () => {
+    test("should skip buffered bytes", async () => {
+      const reader = StreamReader.from(new Uint8Array([1, 2, 3, 4, 5]));
+
+      await reader.read(1);
+      await reader.skip(2);
+      expect(reader.bytesRead).toBe(3);
+      expect(await reader.read(2)).toEqual(new Uint8Array([4, 5]));
+    });
+
+    test("should skip across multiple chunks", async () => {
+      const reader = new StreamReader(
+        createChunkedStream([[1, 2], [3, 4, 5], [6], [7, 8, 9]]),
+      );
+
+      expect(await reader.readUint8()).toBe(1);
+      await reader.skip(BigInt(5));
+      expect(reader.bytesRead).toBe(6);
+      expect(await reader.readUint8()).toBe(7);
+      await reader.skip(1);
+      expect(await reader.readUint8()).toBe(9);
+      expect(reader.bytesRead).toBe(9);
+    });
+
+    test("should skip exactly to a chunk boundary", async () => {
+      const reader = new StreamReader(
+        createChunkedStream([[1, 2], [3, 4], [5]]),
+      );
+
+      await reader.skip(4);
+      expect(reader.bytesRead).toBe(4);
+      expect(await reader.readUntilEof()).toEqual(new Uint8Array([5]));
+    });
+
+    test("should skip zero bytes", async () => {
+      const reader = StreamReader.from(new Uint8Array([1]));
+
+      await reader.skip(0);
+      expect(reader.bytesRead).toBe(0);
+      expect(await reader.readUint8()).toBe(1);
+    });
+
+    test("should reject lengths that are not non-negative integers", async () => {
+      const reader = StreamReader.from(new Uint8Array([1, 2, 3]));
+
+      for (const len of [-1, 1.5, NaN]) {
+        expect(async () => await reader.skip(len)).toThrow(RangeError);
+        expect(async () => await reader.read(len)).toThrow(RangeError);
+        expect(async () => await reader.peek(len)).toThrow(RangeError);
+      }
+
+      expect(reader.bytesRead).toBe(0);
+      expect(await reader.read(3)).toEqual(new Uint8Array([1, 2, 3]));
+    });
+
+    test("should throw when skipping beyond stream end", async () => {
+      const reader = new StreamReader(createChunkedStream([[1, 2], [3]]));
+
+      expect(async () => await reader.skip(4)).toThrow(
+        "Unexpected end of stream",
+      );
+    });
+  });
+
+  describe("string reading", () => {
+    test("should read UTF-8 string", async () => {
+      const text = "Hello, 世界!";
+      const encoder = new TextEncoder();
+      const data = encoder.encode(text);
+      const reader = StreamReader.from(data);
+
+      const result = await reader.readString(data.length);
+      expect(result).toBe(text);
+    });
+
+    test("should read partial string", async () => {
+      const text = "Hello World";
+      const encoder = new TextEncoder();
+      const data = encoder.encode(text);
+      const reader = StreamReader.from(data);
+
+      const result = await reader.readString(5);
+      expect(result).toBe("Hello");
+    });
+
+    test("should handle empty string", async () => {
+      const reader = StreamReader.from(new Uint8Array([]));
+
+      const result = await reader.readString(0);
+      expect(result).toBe("");
+    });
+
+    test("should read strings in other encodings", async () => {
+      const reader = StreamReader.from(
+        new Uint8Array([
+          0x00, 0x48, 0x00, 0x69, 0x48, 0x00, 0x69, 0x00, 0x80, 0x80,
+        ]),
+      );
+
+      expect(await reader.readString(4, { encoding: "utf-16be" })).toBe("Hi");
+      expect(await reader.readString(4, { encoding: "utf-16le" })).toBe("Hi");
+      expect(await reader.readString(1, { encoding: "latin1" })).toBe("\x80");
+      expect(await reader.readString(1, { encoding: "windows-1252" })).toBe(
+        "€",
+      );
+    });
+
+    test("should replace invalid sequences by default", async () => {
+      const reader = StreamReader.from(new Uint8Array([0x48, 0xff, 0x69]));
+
+      expect(await reader.readString(3)).toBe("H\ufffdi");
+    });
+
+    test("should throw on invalid sequences in fatal mode", async () => {
+      const reader = StreamReader.from(
+        new Uint8Array([0x00, 0x48, 0xff, 0x69]),
+      );
+      await reader.skip(1);
+
+      const error = await reader.readString(3, { fatal: true }).catch((e) => e);
+      expect(error).toBeInstanceOf(StringEncodingError);
+      expect(error).toBeInstanceOf(ConduitError);
+      expect(error.offset).toBe(1);
+      expect(error.cause).toBeInstanceOf(TypeError);
+    });
+  });
+
+  describe("delimited reading", () => {
+    test("should read until a single-byte delimiter", async () => {
+      const reader = StreamReader.from(new Uint8Array([1, 2, 0xff, 3, 0xff]));
+
+      expect(await reader.readUntil(0xff)).toEqual(new Uint8Array([1, 2]));
+      expect(reader.bytesRead).toBe(3);
+      expect(await reader.readUntil(0xff, { includeDelimiter: true })).toEqual(
+        new Uint8Array([3, 0xff]),
+      );
+      expect(reader.bytesRead).toBe(5);
+    });
+
+    test("should find a multi-byte delimiter split across chunks", async () => {
+      const reader = new StreamReader(
+        createChunkedStream([
+          [1, 2, 0xaa],
+          [0xbb],
+          [0xcc, 3, 0xaa],
+          [0xbb, 0xcc],
+        ]),
+      );
+      const delimiter = new Uint8Array([0xaa, 0xbb, 0xcc]);
+
+      expect(await reader.readUntil(delimiter)).toEqual(new Uint8Array([1, 2]));
+      expect(
+        await reader.readUntil(delimiter, { includeDelimiter: true }),
+      ).toEqual(new Uint8Array([3, 0xaa, 0xbb, 0xcc]));
+      expect(reader.bytesRead).toBe(9);
+    });
+
+    test("should skip partial delimiter matches", async () => {
+      const reader = StreamReader.from(
+        new Uint8Array([0x0d, 1, 0x0d, 0x0d, 0x0a, 2]),
+      );
+
+      expect(await reader.readUntil(new Uint8Array([0x0d, 0x0a]))).toEqual(
+        new Uint8Array([0x0d, 1, 0x0d]),
+      );
+      expect(await reader.readUint8()).toBe(2);
+    });
+
+    test("should enforce maxLength", async () => {
+      const reader = new StreamReader(
+        createChunkedStream([[1, 2, 3], [4, 5, 6], [0]]),
+      );
+
+      expect(async () => await reader.readUntil(0, { maxLength: 4 })).toThrow(
+        "Delimiter not found within 4 bytes",
+      );
+    });
+
+    test("should allow a delimiter right at maxLength", async () => {
+      const reader = new StreamReader(
+        createChunkedStream([[1, 2, 3], [0x0d], [0x0a]]),
+      );
+
+      expect(
+        await reader.readUntil(new Uint8Array([0x0d, 0x0a]), { maxLength: 3 }),
+      ).toEqual(new Uint8Array([1, 2, 3]));
+    });
+
+    test("should throw when the stream ends before the delimiter", async () => {
+      const reader = StreamReader.from(new Uint8Array([1, 2, 3]));
+
+      expect(async () => await reader.readUntil(0)).toThrow(
+        "Unexpected end of stream",
+      );
+    });
+
+    test("should read C strings", async () => {
+      const reader = new StreamReader(
+        createChunkedStream([
+          [0x48, 0x69],
+          [0x00, 0xe4, 0xb8],
+          [0x96, 0x00],
+        ]),
+      );
+
+      expect(await reader.readCString()).toBe("Hi");
+      expect(await reader.readCString()).toBe("世");
+      expect(reader.bytesRead).toBe(7);
+    });
+
+    test("should read lines with LF and CRLF endings", async () => {
+      const data = new TextEncoder().encode("first\nsecond\r\n\nlast");
+      const reader = new StreamReader(
+        createChunkedStream([
+          Array.from(data.subarray(0, 3)),
+          Array.from(data.subarray(3, 13)),
+          Array.from(data.subarray(13)),
+        ]),
+      );
+
+      expect(await reader.readLine()).toBe("first");
+      expect(await reader.readLine()).toBe("second");
+      expect(await reader.readLine()).toBe("");
+      expect(await reader.readLine()).toBe("last");
+      expect(await reader.readLine()).toBeNull();
+      expect(reader.bytesRead).toBe(data.length);
+    });
+
+    test("should enforce maxLength for lines", async () => {
+      const reader = StreamReader.from(new TextEncoder().encode("abcdef\n"));
+
+      expect(async () => await reader.readLine({ maxLength: 5 })).toThrow(
+        RangeOverflowError,
+      );
+    });
+
+    test("should not count the CR of a CRLF toward maxLength", async () => {
+      const encoder = new TextEncoder();
+
+      const reader = StreamReader.from(encoder.encode("abc\r\nde\n"));
+      expect(await reader.readLine({ maxLength: 3 })).toBe("abc");
+      expect(await reader.readLine({ maxLength: 3 })).toBe("de");
+
+      for (const text of ["abcd\n", "abcd\r\n", "abc\r"]) {
+        expect(
+          async () =>
+            await StreamReader.from(encoder.encode(text)).readLine({
+              maxLength: 3,
+            }),
+        ).toThrow(RangeOverflowError);
+      }
+    });
+  });
+
+  describe("limited reading", () => {
+    test("should read within the section and fail at its end", async () => {
+      const reader = StreamReader.from(new Uint8Array([1, 2, 3, 4, 5, 6]));
+      const section = reader.limit(3);
+
+      expect(await section.readUint16()).toBe(0x0102);
+      expect(section.remaining).toBe(1);
+
+      const error = await section.readUint16().catch((e) => e);
+      expect(error).toBeInstanceOf(UnexpectedEofError);
+      expect(error.offset).toBe(2);
+      expect(error.requested).toBe(2);
+      expect(error.available).toBe(1);
+
+      expect(await section.readUint8()).toBe(3);
+      expect(section.remaining).toBe(0);
+      expect(await reader.readUint8()).toBe(4);
+    });
+
+    test("should keep the parent position accurate", async () => {
+      const reader = new StreamReader(
+        createChunkedStream([
+          [1, 2],
+          [3, 4, 5],
+        ]),
+      );
+      await reader.readUint8();
+
+      const section = reader.limit(3);
+      await section.read(2);
+      expect(reader.bytesRead).toBe(3);
+      expect(section.bytesRead).toBe(3);
+
+      await section.skipRemaining();
+      expect(reader.bytesRead).toBe(4);
+      expect(await reader.readUint8()).toBe(5);
+    });
+
+    test("should skip the remainder of a section", async () => {
+      const reader = StreamReader.from(new Uint8Array([1, 2, 3, 4, 5]));
+      const section = reader.limit(4);
+
+      await section.readUint8();
+      await section.skipRemaining();
+
+      expect(section.remaining).toBe(0);
+      expect(await reader.readUint8()).toBe(5);
+    });
+
+    test("should not peek or skip past the section", async () => {
+      const reader = StreamReader.from(new Uint8Array([1, 2, 3, 4]));
+      const section = reader.limit(2);
+
+      expect(async () => await section.peek(3)).toThrow(UnexpectedEofError);
+      expect(async () => await section.skip(3)).toThrow(UnexpectedEofError);
+      expect(await section.peek(2)).toEqual(new Uint8Array([1, 2]));
+    });
+
+    test("should treat the section end as end of stream for delimited reads", async () => {
+      const reader = StreamReader.from(new TextEncoder().encode("ab\ncd\nef"));
+      const section = reader.limit(6);
+
+      expect(await section.readLine()).toBe("ab");
+      expect(await section.readLine()).toBe("cd");
+      expect(await section.readLine()).toBeNull();
+      expect(await reader.readLine()).toBe("ef");
+    });
+
+    test("should not find a delimiter beyond the section", async () => {
+      const reader = StreamReader.from(new Uint8Array([1, 2, 3, 0]));
+      const section = reader.limit(3);
+
+      expect(async () => await section.readCString()).toThrow(
+        UnexpectedEofError,
+      );
+    });
+
+    test("should read until the end of the section", async () => {
+      const reader = StreamReader.from(new Uint8Array([1, 2, 3, 4]));
+      const section = reader.limit(3);
+
+      expect(await section.readUntilEof()).toEqual(new Uint8Array([1, 2, 3]));
+      expect(await reader.readUntilEof()).toEqual(new Uint8Array([4]));
+    });
+
+    test("should support nested sections", async () => {
+      const reader = StreamReader.from(new Uint8Array([1, 2, 3, 4, 5]));
+      const outer = reader.limit(4);
+      await outer.readUint8();
+
+      const inner = outer.limit(2);
+      expect(await inner.readUint16()).toBe(0x0203);
+      expect(async () => await inner.readUint8()).toThrow(UnexpectedEofError);
+      expect(outer.remaining).toBe(1);
+
+      expect(() => outer.limit(2)).toThrow(RangeOverflowError);
+      expect(() => reader.limit(-1)).toThrow(RangeError);
+    });
+  });
+
+  describe("async iteration", () => {
+    test("should yield buffered bytes before upstream chunks", async () => {
+      const reader = new StreamReader(
+        createChunkedStream([[1, 2, 3], [4, 5], [6]]),
+      );
+      await reader.readUint8();
+      await reader.peek(4);
+
+      const chunks: number[][] = [];
+      for await (const chunk of reader) {
+        chunks.push([...chunk]);
+      }
+
+      expect(chunks).toEqual([[2, 3], [4, 5], [6]]);
+      expect(reader.bytesRead).toBe(6);
+    });
+
+    test("should leave the rest readable after breaking out", async () => {
+      const reader = new StreamReader(
+        createChunkedStream([
+          [1, 2],
+          [3, 4],
+        ]),
+      );
+
+      for await (const chunk of reader) {
+        expect(chunk).toEqual(new Uint8Array([1, 2]));
+        break;
+      }
+
+      expect(reader.bytesRead).toBe(2);
+      expect(await reader.readUint16()).toBe(0x0304);
+    });
+
+    test("should stop at the end of a limited section", async () => {
+      const reader = new StreamReader(createChunkedStream([[1, 2, 3], [4]]));
+
+      const chunks: Uint8Array[] = [];
+      for await (const chunk of reader.limit(2)) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks).toEqual([new Uint8Array([1, 2])]);
+      expect(await reader.readUint8()).toBe(3);
+    });
+
+    test("should honour an abort signal", async () => {
+      const reader = StreamReader.from(new Uint8Array([1, 2]));
+      const iterator = reader.chunks({ signal: AbortSignal.abort() });
+
+      expect(async () => await iterator.next()).toThrow(AbortError);
+    });
+  });
+
+  describe("record iteration", () => {
+    test("should parse records until a clean end of stream", async () => {
+      const reader = new StreamReader(
+        createChunkedStream([
+          [0, 1, 0],
+          [2, 0, 3],
+        ]),
+      );
+
+      const records: number[] = [];
+      for await (const record of reader.records((r) => r.readUint16())) {
+        records.push(record);
+      }
+
+      expect(records).toEqual([1, 2, 3]);
+    });
+
+    test("should yield nothing for an empty stream", async () => {
+      const reader = StreamReader.from(new Uint8Array([]));
+
+      const records = await Array.fromAsync(
+        reader.records((r) => r.readUint8()),
+      );
+      expect(records).toEqual([]);
+    });
+
+    test("should throw on end of stream inside a record", async () => {
+      const reader = StreamReader.from(new Uint8Array([0, 1, 0]));
+
+      expect(
+        async () =>
+          await Array.fromAsync(reader.records((r) => r.readUint16())),
+      ).toThrow(UnexpectedEofError);
+    });
+
+    test("should parse length-prefixed records in a section", async () => {
+      const reader = StreamReader.from(
+        new Uint8Array([5, 2, 0xaa, 0xbb, 1, 0xcc, 0xff]),
+      );
+      const section = reader.limit(await reader.readUint8());
+
+      const records = await Array.fromAsync(
+        section.records(async (r) => r.read(await r.readUint8())),
+      );
+
+      expect(records).toEqual([
+        new Uint8Array([0xaa, 0xbb]),
+        new Uint8Array([0xcc]),
+      ]);
+      expect(await reader.readUint8()).toBe(0xff);
+    });
+
+    test("should reject a parser that consumes nothing", async () => {
+      const reader = StreamReader.from(new Uint8Array([1]));
+
+      expect(
+        async () => await Array.fromAsync(reader.records((r) => r.peekUint8())),
+      ).toThrow(ConduitError);
+    });
+  });
+
+  describe("progress hooks", () => {
+    test("should report consumed bytes with the new position", async () => {
+      const events: unknown[] = [];
+      const reader = new StreamReader(
+        createChunkedStream([[1, 2, 3, 4, 5, 6]]),
+        undefined,
+        { onRead: (progress) => events.push(progress) },
+      );
+
+      await reader.readUint16();
+      await reader.skip(1);
+      await reader.limit(2).readUntilEof();
+
+      expect(events).toEqual([
+        { bytes: 2, bytesRead: 2, buffered: 4 },
+        { bytes: 1, bytesRead: 3, buffered: 3 },
+        { bytes: 2, bytesRead: 5, buffered: 1 },
+      ]);
+    });
+
+    test("should report chunks pulled from the source", async () => {
+      const events: unknown[] = [];
+      const reader = new StreamReader(
+        createChunkedStream([[1, 2, 3], [4, 5], [6]]),
+        undefined,
+        { onChunk: (progress) => events.push(progress) },
+      );
+
+      await reader.read(4);
+      await reader.skip(2);
+
+      expect(events).toEqual([
+        { bytes: 3, bytesRead: 0, buffered: 0 },
+        { bytes: 2, bytesRead: 0, buffered: 3 },
+        { bytes: 1, bytesRead: 5, buffered: 0 },
+      ]);
+    });
+
+    test("should report bytes consumed by iteration and delimited reads", async () => {
+      let total = 0;
+      const reader = StreamReader.fromChunks(
+        [new TextEncoder().encode("line\nrest")],
+        undefined,
+        { onRead: ({ bytes }) => (total += bytes) },
+      );
+
+      await reader.readLine();
+      for await (const _ of reader) {
+        // consumed by iteration
+      }
+
+      expect(total).toBe(9);
+      expect(total).toBe(reader.bytesRead);
+    });
+  });
+
+  describe("mark and reset", () => {
+    test("should rewind to a mark after a failed attempt", async () => {
+      const reader = new StreamReader(
+        createChunkedStream([
+          [0, 1],
+          [2, 3, 4],
+          [5, 6, 7, 8],
+        ]),
+      );
+      await reader.readUint8();
+
+      const mark = reader.mark();
+      expect(mark.position).toBe(1);
+      expect(await reader.readUint32()).toBe(0x01020304);
+      await reader.skip(2);
+
+      reader.reset(mark);
+      expect(reader.bytesRead).toBe(1);
+      expect(await reader.readUint16()).toBe(0x0102);
+      expect(await reader.readUntilEof()).toEqual(
+        new Uint8Array([3, 4, 5, 6, 7, 8]),
+      );
+    });
+
+    test("should replay bytes consumed by any read", async () => {
+      const bytes = new TextEncoder().encode("a\r\nb\0");
+      const reader = StreamReader.fromChunks([
+        bytes,
+        Uint8Array.of(0xac, 0x02),
+      ]);
+
+      const mark = reader.mark();
+      expect(await reader.readLine()).toBe("a");
+      expect(await reader.readCString()).toBe("b");
+      expect(await reader.readVarUint()).toBe(300);
+
+      reader.reset(mark);
+      const chunks: number[] = [];
+      for await (const chunk of reader) {
+        chunks.push(...chunk);
+      }
+      expect(chunks).toEqual([...bytes, 0xac, 0x02]);
+    });
+
+    test("should replay the original bytes after the caller modifies them", async () => {
+      const reader = StreamReader.from(new Uint8Array([1, 2, 3]));
+
+      const mark = reader.mark();
+      (await reader.read(3)).fill(0);
+      reader.reset(mark);
+
+      expect(await reader.read(3)).toEqual(new Uint8Array([1, 2, 3]));
+    });
+
+    test("should support nested marks", async () => {
+      const reader = StreamReader.from(new Uint8Array([1, 2, 3, 4, 5, 6]));
+
+      const outer = reader.mark();
+      await reader.read(2);
+      const inner = reader.mark();
+      await reader.read(2);
+
+      reader.reset(inner);
+      expect(await reader.readUint8()).toBe(3);
+
+      reader.reset(outer);
+      expect(reader.bytesRead).toBe(0);
+      expect(() => reader.reset(inner)).toThrow(ConduitError);
+
+      await reader.read(5);
+      reader.reset(outer);
+      expect(await reader.readUint8()).toBe(1);
+    });
+
+    test("should keep outer marks usable when inner ones are released", async () => {
+      const reader = StreamReader.from(new Uint8Array([1, 2, 3, 4]));
+
+      const outer = reader.mark();
+      await reader.readUint8();
+      const inner = reader.mark();
+      await reader.readUint8();
+      reader.release(inner);
+      reader.release(inner);
+      await reader.readUint8();
+
+      reader.reset(outer);
+      expect(await reader.read(4)).toEqual(new Uint8Array([1, 2, 3, 4]));
+    });
+
+    test("should keep inner marks usable when outer ones are released", async () => {
+      const reader = StreamReader.from(new Uint8Array([1, 2, 3, 4]));
+
+      const outer = reader.mark();
+      await reader.readUint8();
+      const inner = reader.mark();
+      await reader.readUint16();
+      reader.release(outer);
+
+      expect(() => reader.reset(outer)).toThrow(ConduitError);
+      reader.reset(inner);
+      expect(await reader.read(3)).toEqual(new Uint8Array([2, 3, 4]));
+    });
+
+    test("should throw when a mark would retain more than its limit", async () => {
+      const reader = StreamReader.from(new Uint8Array(16));
+
+      const mark = reader.mark({ maxRetained: 4 });
+      await reader.read(3);
+
+      const error = await reader.read(2).catch((e) => e);
+      expect(error).toBeInstanceOf(BufferLimitError);
+      expect(error.available).toBe(1);
+      expect(reader.bytesRead).toBe(3);
+      expect(async () => await reader.skip(2)).toThrow(BufferLimitError);
+
+      const chunks: Uint8Array[] = [];
+      const iteration = (async () => {
+        for await (const chunk of reader) {
+          chunks.push(chunk);
+        }
+      })();
+      expect(async () => await iteration).toThrow(BufferLimitError);
+      expect(chunks).toEqual([new Uint8Array(1)]);
+
+      reader.release(mark);
+      expect(await reader.read(12)).toHaveLength(12);
+    });
+
+    test("should reject invalid retention limits", () => {
+      const reader = StreamReader.from(new Uint8Array(1));
+
+      expect(() => reader.mark({ maxRetained: -1 })).toThrow(RangeError);
+      expect(() => reader.mark({ maxRetained: 0.5 })).toThrow(RangeError);
+    });
+
+    test("should release marks when closed", async () => {
+      const reader = StreamReader.from(new Uint8Array(4));
+      const mark = reader.mark();
+      await reader.close();
+
+      expect(() => reader.mark()).toThrow(StreamClosedError);
+      expect(() => reader.reset(mark)).toThrow(StreamClosedError);
+    });
+  });
+
+  describe("aborting", () => {
+    function createControlledStream() {
+      let controller!: ReadableStreamDefaultController<Uint8Array>;
+      const stream = new ReadableStream<Uint8Array>({
+        start(c) {
+          controller = c;
+        },
+      });
+
+      return { stream, controller };
+    }
+
+    test("should reject a stalled read when the signal aborts", async () => {
+      const { stream } = createControlledStream();
+      const reader = new StreamReader(stream);
+      const controller = new AbortController();
+
+      const pending = reader.readUint32(Endian.Big, {
+        signal: controller.signal,
+      });
+      controller.abort("stop");
+
+      const error = await pending.catch((e) => e);
+      expect(error).toBeInstanceOf(AbortError);
+      expect(error).toBeInstanceOf(ConduitError);
+      expect(error.cause).toBe("stop");
+      expect(error.offset).toBe(0);
+      expect(error.requested).toBe(4);
+    });
+
+    test("should support AbortSignal.timeout", async () => {
+      const { stream } = createControlledStream();
+      const reader = new StreamReader(stream);
+
+      const error = await reader
+        .read(1, { signal: AbortSignal.timeout(10) })
+        .catch((e) => e);
+      expect(error).toBeInstanceOf(AbortError);
+      expect(error.cause.name).toBe("TimeoutError");
+    });
+
+    test("should stay usable after an abort", async () => {
+      const { stream, controller } = createControlledStream();
+      const reader = new StreamReader(stream);
+      const abortController = new AbortController();
+
+      controller.enqueue(new Uint8Array([0x01, 0x02]));
+      const pending = reader.readUint32(Endian.Big, {
+        signal: abortController.signal,
+      });
+      abortController.abort();
+      expect(async () => await pending).toThrow(AbortError);
+
+      controller.enqueue(new Uint8Array([0x03, 0x04]));
+      expect(await reader.readUint32()).toBe(0x01020304);
+      expect(reader.bytesRead).toBe(4);
+    });
+
+    test("should not consume a partially read varint", async () => {
+      const { stream, controller } = createControlledStream();
+      const reader = new StreamReader(stream);
+      const abortController = new AbortController();
+
+      controller.enqueue(new Uint8Array([0x81]));
+      const pending = reader.readVarUint({ signal: abortController.signal });
+      abortController.abort();
+      expect(async () => await pending).toThrow(AbortError);
+      expect(reader.bytesRead).toBe(0);
+
+      controller.enqueue(new Uint8Array([0x01]));
+      expect(await reader.readVarUint()).toBe(129);
+    });
+
+    test("should reject immediately when already aborted", async () => {
+      const reader = StreamReader.from(new Uint8Array([1, 2, 3]));
+      const signal = AbortSignal.abort();
+
+      expect(async () => await reader.readUint8({ signal })).toThrow(
+        AbortError,
+      );
+      expect(async () => await reader.readLine({ signal })).toThrow(AbortError);
+      expect(async () => await reader.skip(1, { signal })).toThrow(AbortError);
+      expect(await reader.readUint8()).toBe(1);
+    });
+
+    test("should apply the constructor signal to every operation", async () => {
+      const { stream, controller } = createControlledStream();
+      const abortController = new AbortController();
+      const reader = new StreamReader(stream, undefined, {
+        signal: abortController.signal,
+      });
 
-      await reader.read(2);
-      const result = await reader.read(3);
-      expect(result).toEqual(new Uint8Array([3, 4, 5]));
-      expect(reader.bytesRead).toBe(5);
+      controller.enqueue(new Uint8Array([1]));
+      expect(await reader.readUint8()).toBe(1);
+
+      const pending = reader.readUntilEof();
+      abortController.abort();
+      expect(async () => await pending).toThrow(AbortError);
+      expect(async () => await reader.limit(0).readUint8()).toThrow(AbortError);
     });
+  });
 
-    test("should throw error when reading beyond available data", async () => {
-      const data = new Uint8Array([1, 2, 3]);
-      const reader = StreamReader.from(data);
+  describe("default endianness", () => {
+    const hostIsLittle = new Uint8Array(Uint16Array.of(1).buffer)[0] === 1;
 
-      expect(async () => await reader.read(5)).toThrow(
-        "Unexpected end of stream",
+    test("should default to big-endian", async () => {
+      const reader = StreamReader.from(new Uint8Array([0x12, 0x34]));
+
+      expect(reader.endian).toBe(Endian.Big);
+      expect(await reader.readUint16()).toBe(0x1234);
+    });
+
+    test("should use the constructor endianness for every typed read", async () => {
+      const reader = StreamReader.from(
+        new Uint8Array([
+          0x34, 0x12, 0x78, 0x56, 0x34, 0x12, 0x00, 0x3c, 0x08, 0x07, 0x06,
+          0x05, 0x04, 0x03, 0x02, 0x01,
+        ]),
+        undefined,
+        { endian: Endian.Little },
       );
+
+      expect(await reader.peekUint16()).toBe(0x1234);
+      expect(await reader.readUint16()).toBe(0x1234);
+      expect(await reader.readInt32()).toBe(0x12345678);
+      expect(await reader.readFloat16()).toBe(1);
+      expect(await reader.readUint64()).toBe(0x0102030405060708n);
     });
 
-    test("should handle reading with bigint length", async () => {
-      const data = new Uint8Array([1, 2, 3, 4, 5]);
-      const reader = StreamReader.from(data);
+    test("should still accept an explicit endianness per call", async () => {
+      const reader = StreamReader.from(
+        new Uint8Array([0x12, 0x34]),
+        undefined,
+        {
+          endian: Endian.Little,
+        },
+      );
 
-      const result = await reader.read(BigInt(3));
-      expect(result).toEqual(new Uint8Array([1, 2, 3]));
-      expect(reader.bytesRead).toBe(3);
+      expect(await reader.readUint16(Endian.Big)).toBe(0x1234);
     });
-  });
 
-  describe("string reading", () => {
-    test("should read UTF-8 string", async () => {
-      const text = "Hello, 世界!";
-      const encoder = new TextEncoder();
-      const data = encoder.encode(text);
-      const reader = StreamReader.from(data);
+    test("should resolve Endian.Native to the host byte order", async () => {
+      const native = StreamReader.from(
+        new Uint8Array([0x01, 0x00]),
+        undefined,
+        {
+          endian: Endian.Native,
+        },
+      );
+      expect(native.endian).toBe(hostIsLittle ? Endian.Little : Endian.Big);
+      expect(await native.readUint16()).toBe(hostIsLittle ? 1 : 0x0100);
 
-      const result = await reader.readString(data.length);
-      expect(result).toBe(text);
+      const explicit = StreamReader.from(new Uint8Array([0x01, 0x00]));
+      expect(await explicit.readUint16(Endian.Native)).toBe(
+        hostIsLittle ? 1 : 0x0100,
+      );
     });
 
-    test("should read partial string", async () => {
-      const text = "Hello World";
-      const encoder = new TextEncoder();
-      const data = encoder.encode(text);
-      const reader = StreamReader.from(data);
+    test("should share the position with withEndian views", async () => {
+      const reader = StreamReader.from(
+        new Uint8Array([0x12, 0x34, 0x12, 0x34]),
+      );
+      const little = reader.withEndian(Endian.Little);
 
-      const result = await reader.readString(5);
-      expect(result).toBe("Hello");
+      expect(await little.readUint16()).toBe(0x3412);
+      expect(reader.bytesRead).toBe(2);
+      expect(await reader.readUint16()).toBe(0x1234);
+      expect(little.bytesRead).toBe(4);
     });
 
-    test("should handle empty string", async () => {
-      const reader = StreamReader.from(new Uint8Array([]));
+    test("should keep the section limit in withEndian views", async () => {
+      const reader = StreamReader.from(new Uint8Array([0x34, 0x12, 0xff]));
+      const section = reader.limit(2).withEndian(Endian.Little);
 
-      const result = await reader.readString(0);
-      expect(result).toBe("");
+      expect(await section.readUint16()).toBe(0x1234);
+      expect(async () => await section.readUint8()).toThrow(UnexpectedEofError);
     });
   });
 
@@ -246,6 +1320,274 @@ describe("StreamReader", () => {
     });
   });
 
+  describe("arbitrary-width integer reading", () => {
+    test("should read 24-bit samples", async () => {
+      const reader = StreamReader.from(
+        new Uint8Array([0x12, 0x34, 0x56, 0xff, 0xff, 0x7f, 0x00, 0x00, 0x80]),
+      );
+
+      expect(await reader.readUintN(3)).toBe(0x123456);
+      expect(await reader.readIntN(3, Endian.Little)).toBe(0x7fffff);
+      expect(await reader.readIntN(3, Endian.Little)).toBe(-0x800000);
+      expect(reader.bytesRead).toBe(9);
+    });
+
+    test("should return numbers up to 6 bytes and bigints beyond", async () => {
+      const reader = StreamReader.from(
+        new Uint8Array([
+          0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0x01, 0x02, 0x03, 0x04, 0x05,
+          0x06, 0x07,
+        ]),
+      );
+
+      expect(await reader.readUintN(6)).toBe(0xffffffffffff);
+      expect(await reader.readUintN(7)).toBe(0x01020304050607n);
+    });
+
+    test("should read 128-bit values across chunks", async () => {
+      const bytes = Array.from({ length: 16 }, (_, i) => 0xf0 + i);
+      const reader = new StreamReader(
+        createChunkedStream([bytes.slice(0, 5), bytes.slice(5)]),
+      );
+
+      expect(await reader.readIntN(16, Endian.Big)).toBe(
+        BigInt.asIntN(128, 0xf0f1f2f3f4f5f6f7f8f9fafbfcfdfeffn),
+      );
+    });
+
+    test("should reject invalid byte lengths", async () => {
+      const reader = StreamReader.from(new Uint8Array([1, 2]));
+
+      expect(async () => await reader.readUintN(0)).toThrow(RangeError);
+      expect(async () => await reader.readIntN(1.5)).toThrow(RangeError);
+      expect(async () => await reader.readUintN(3)).toThrow(UnexpectedEofError);
+      expect(reader.bytesRead).toBe(0);
+    });
+  });
+
+  describe("typed array reading", () => {
+    const hostEndian =
+      new Uint8Array(Uint16Array.of(1).buffer)[0] === 1
+        ? Endian.Little
+        : Endian.Big;
+    const foreignEndian =
+      hostEndian === Endian.Little ? Endian.Big : Endian.Little;
+
+    test("should read integer arrays in either byte order", async () => {
+      const data = new Uint8Array([0x12, 0x34, 0x56, 0x78, 0x9a, 0xbc]);
+
+      expect(await StreamReader.from(data).readUint16Array(3)).toEqual(
+        Uint16Array.of(0x1234, 0x5678, 0x9abc),
+      );
+      expect(
+        await StreamReader.from(data).readUint16Array(3, Endian.Little),
+      ).toEqual(Uint16Array.of(0x3412, 0x7856, 0xbc9a));
+      expect(await StreamReader.from(data).readInt16Array(1)).toEqual(
+        Int16Array.of(0x1234),
+      );
+      expect(await StreamReader.from(data).readInt8Array(2)).toEqual(
+        Int8Array.of(0x12, 0x34),
+      );
+    });
+
+    test("should read 32-bit and 64-bit arrays", async () => {
+      const reader = StreamReader.from(
+        new Uint8Array([
+          0xff, 0xff, 0xff, 0xfe, 0x00, 0x00, 0x00, 0x01, 0x3f, 0x80, 0x00,
+          0x00, 0x3f, 0xf0, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0xff, 0xff,
+          0xff, 0xff, 0xff, 0xff, 0xff, 0xff,
+        ]),
+      );
+
+      expect(await reader.readInt32Array(1)).toEqual(Int32Array.of(-2));
+      expect(await reader.readUint32Array(1)).toEqual(Uint32Array.of(1));
+      expect(await reader.readFloat32Array(1)).toEqual(Float32Array.of(1));
+      expect(await reader.readFloat64Array(1)).toEqual(Float64Array.of(1));
+      expect(await reader.readBigInt64Array(1)).toEqual(BigInt64Array.of(-1n));
+    });
+
+    test("should return a zero-copy view for aligned host-order data", async () => {
+      const data = new Uint8Array(Uint32Array.of(1, 2, 3).buffer);
+      const reader = StreamReader.from(data);
+
+      const values = await reader.readUint32Array(3, hostEndian);
+
+      expect(values).toEqual(Uint32Array.of(1, 2, 3));
+      expect(values.buffer).toBe(data.buffer);
+    });
+
+    test("should copy misaligned data", async () => {
+      const data = new Uint8Array(9);
+      data.set(new Uint8Array(Float64Array.of(Math.PI).buffer), 1);
+      const reader = StreamReader.from(data);
+      await reader.readUint8();
+
+      const values = await reader.readFloat64Array(1, hostEndian);
+
+      expect(values).toEqual(Float64Array.of(Math.PI));
+      expect(values.buffer).not.toBe(data.buffer);
+    });
+
+    test("should swap bytes for the other byte order", async () => {
+      const source = BigUint64Array.of(0x0102030405060708n, 42n);
+      const swapped = new Uint8Array(source.buffer).map(
+        (_, i, bytes) => bytes[i - (i % 8) + 7 - (i % 8)],
+      );
+      const reader = StreamReader.from(swapped);
+
+      expect(await reader.readBigUint64Array(2, foreignEndian)).toEqual(source);
+    });
+
+    test("should read arrays spanning chunks", async () => {
+      const reader = new StreamReader(
+        createChunkedStream([[0x00, 0x01, 0x00], [0x02, 0x00], [0x03]]),
+      );
+
+      expect(await reader.readUint16Array(3)).toEqual(Uint16Array.of(1, 2, 3));
+      expect(reader.bytesRead).toBe(6);
+    });
+
+    test("should use the reader's default endianness", async () => {
+      const reader = StreamReader.from(
+        new Uint8Array([0x01, 0x00]),
+        undefined,
+        {
+          endian: Endian.Little,
+        },
+      );
+
+      expect(await reader.readUint16Array(1)).toEqual(Uint16Array.of(1));
+    });
+
+    test("should handle empty and invalid counts", async () => {
+      const reader = StreamReader.from(new Uint8Array([1, 2]));
+
+      expect(await reader.readUint32Array(0)).toEqual(new Uint32Array(0));
+      expect(async () => await reader.readUint16Array(-1)).toThrow(RangeError);
+      expect(async () => await reader.readUint16Array(2)).toThrow(
+        UnexpectedEofError,
+      );
+    });
+  });
+
+  describe("varint reading", () => {
+    test("should read unsigned LEB128", async () => {
+      const reader = StreamReader.from(
+        new Uint8Array([0x00, 0xac, 0x02, 0xe5, 0x8e, 0x26]),
+      );
+
+      expect(await reader.readVarUint()).toBe(0);
+      expect(await reader.readVarUint()).toBe(300);
+      expect(await reader.readVarUint()).toBe(624485);
+      expect(reader.bytesRead).toBe(6);
+    });
+
+    test("should read unsigned LEB128 across chunks", async () => {
+      const reader = new StreamReader(
+        createChunkedStream([[0xe5], [0x8e, 0x26]]),
+      );
+
+      expect(await reader.readVarUint()).toBe(624485);
+    });
+
+    test("should read 64-bit unsigned LEB128 as bigint", async () => {
+      const reader = StreamReader.from(
+        new Uint8Array([
+          0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0x01,
+        ]),
+      );
+
+      expect(await reader.readVarUintBigInt()).toBe(
+        BigInt("0xFFFFFFFFFFFFFFFF"),
+      );
+    });
+
+    test("should read signed LEB128", async () => {
+      const reader = StreamReader.from(
+        new Uint8Array([0x02, 0x7e, 0x3f, 0xc0, 0x00, 0xc0, 0xbb, 0x78]),
+      );
+
+      expect(await reader.readVarInt()).toBe(2);
+      expect(await reader.readVarInt()).toBe(-2);
+      expect(await reader.readVarInt()).toBe(63);
+      expect(await reader.readVarInt()).toBe(64);
+      expect(await reader.readVarInt()).toBe(-123456);
+    });
+
+    test("should read 64-bit signed LEB128 as bigint", async () => {
+      const reader = StreamReader.from(
+        new Uint8Array([
+          0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x7f,
+        ]),
+      );
+
+      expect(await reader.readVarIntBigInt()).toBe(
+        -BigInt("0x8000000000000000"),
+      );
+    });
+
+    test("should read zigzag varints", async () => {
+      const reader = StreamReader.from(
+        new Uint8Array([0x00, 0x01, 0x02, 0x7f, 0x03]),
+      );
+
+      expect(await reader.readZigZag()).toBe(0);
+      expect(await reader.readZigZag()).toBe(-1);
+      expect(await reader.readZigZag()).toBe(1);
+      expect(await reader.readZigZag()).toBe(-64);
+      expect(await reader.readZigZagBigInt()).toBe(-2n);
+    });
+
+    test("should reject overlong encodings", async () => {
+      expect(
+        async () =>
+          await StreamReader.from(new Uint8Array([0x80, 0x00])).readVarUint(),
+      ).toThrow(VarIntError);
+      expect(
+        async () =>
+          await StreamReader.from(
+            new Uint8Array([0x81, 0x00]),
+          ).readVarIntBigInt(),
+      ).toThrow(VarIntError);
+      expect(
+        async () =>
+          await StreamReader.from(new Uint8Array([0xff, 0x7f])).readVarInt(),
+      ).toThrow(VarIntError);
+    });
+
+    test("should reject values exceeding 64 bits", async () => {
+      const tooManyBytes = new Uint8Array(11).fill(0x80);
+      tooManyBytes[10] = 0x01;
+      expect(
+        async () => await StreamReader.from(tooManyBytes).readVarUintBigInt(),
+      ).toThrow("Varint exceeds 64 bits");
+
+      const tenthByteTooLarge = new Uint8Array(10).fill(0xff);
+      tenthByteTooLarge[9] = 0x02;
+      expect(
+        async () =>
+          await StreamReader.from(tenthByteTooLarge).readVarUintBigInt(),
+      ).toThrow("Varint exceeds 64 bits");
+
+      const signedTooLarge = new Uint8Array(10).fill(0xff);
+      signedTooLarge[9] = 0x01;
+      expect(
+        async () => await StreamReader.from(signedTooLarge).readVarIntBigInt(),
+      ).toThrow("Varint exceeds 64 bits");
+    });
+
+    test("should reject unsafe integers for number variants", async () => {
+      const data = new Uint8Array([
+        0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x10,
+      ]);
+
+      expect(async () => await StreamReader.from(data).readVarUint()).toThrow(
+        VarIntError,
+      );
+      expect(await StreamReader.from(data).readVarUintBigInt()).toBe(2n ** 53n);
+    });
+  });
+
   describe("readUntilEof", () => {
     test("should read all remaining data", async () => {
       const data = new Uint8Array([1, 2, 3, 4, 5]);
@@ -299,6 +1641,114 @@ describe("StreamReader", () => {
     });
   });
 
+  describe("buffer limits", () => {
+    test("should reject oversized reads before pulling any data", async () => {
+      let pulls = 0;
+      const stream = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          pulls++;
+          controller.enqueue(new Uint8Array(16));
+        },
+      });
+      const reader = new StreamReader(stream, undefined, {
+        maxBufferSize: 1024,
+      });
+      await reader.readUint8();
+      pulls = 0;
+
+      const error = await reader.read(0xffffffff).catch((e) => e);
+      expect(error).toBeInstanceOf(BufferLimitError);
+      expect(error).toBeInstanceOf(RangeOverflowError);
+      expect(error.offset).toBe(1);
+      expect(error.requested).toBe(0xffffffff);
+      expect(error.available).toBe(1024);
+      expect(pulls).toBe(0);
+
+      expect(async () => await reader.peek(2048)).toThrow(BufferLimitError);
+      expect(async () => await reader.readUint32Array(300)).toThrow(
+        BufferLimitError,
+      );
+      expect(await reader.read(1024)).toHaveLength(1024);
+    });
+
+    test("should still skip past the limit without buffering", async () => {
+      const reader = StreamReader.fromChunks(
+        [new Uint8Array(100), new Uint8Array(100), Uint8Array.of(7)],
+        undefined,
+        { maxBufferSize: 16 },
+      );
+
+      await reader.skip(200);
+      expect(await reader.readUint8()).toBe(7);
+    });
+
+    test("should stop searching for a delimiter at the limit", async () => {
+      const reader = StreamReader.fromChunks(
+        [new Uint8Array(10).fill(0x61), new Uint8Array(10).fill(0x61)],
+        undefined,
+        { maxBufferSize: 8 },
+      );
+
+      expect(async () => await reader.readLine()).toThrow(BufferLimitError);
+      expect(reader.bytesRead).toBe(0);
+    });
+
+    test("should apply to views", async () => {
+      const reader = StreamReader.from(new Uint8Array(64), undefined, {
+        maxBufferSize: 8,
+      });
+
+      expect(async () => await reader.limit(32).read(16)).toThrow(
+        BufferLimitError,
+      );
+      expect(
+        async () => await reader.withEndian(Endian.Little).read(9),
+      ).toThrow(BufferLimitError);
+    });
+
+    test("should limit readUntilEof", async () => {
+      const reader = new StreamReader(
+        createChunkedStream([
+          [1, 2, 3],
+          [4, 5, 6],
+          [7, 8, 9],
+        ]),
+        undefined,
+        { maxBufferSize: 8 },
+      );
+
+      const error = await reader.readUntilEof().catch((e) => e);
+      expect(error).toBeInstanceOf(BufferLimitError);
+      expect(error.available).toBe(8);
+      expect(reader.bytesRead).toBe(0);
+    });
+
+    test("should accept maxBytes for readUntilEof", async () => {
+      const reader = StreamReader.from(new Uint8Array([1, 2, 3, 4, 5]));
+
+      expect(async () => await reader.readUntilEof({ maxBytes: 4 })).toThrow(
+        BufferLimitError,
+      );
+      expect(
+        async () => await reader.limit(5).readUntilEof({ maxBytes: 4 }),
+      ).toThrow(BufferLimitError);
+      expect(await reader.readUntilEof({ maxBytes: 5 })).toEqual(
+        new Uint8Array([1, 2, 3, 4, 5]),
+      );
+    });
+
+    test("should reject invalid limits", () => {
+      const stream = new ReadableStream<Uint8Array>();
+
+      expect(
+        () => new StreamReader(stream, undefined, { maxBufferSize: 0 }),
+      ).toThrow(RangeError);
+      expect(
+        () => new StreamReader(stream, undefined, { maxBufferSize: 1.5 }),
+      ).toThrow(RangeError);
+    });
+  });
+
   describe("DataView creation", () => {
     test("should create DataView from Uint8Array", async () => {
       const data = new Uint8Array([0x12, 0x34]);
@@ -310,6 +1760,17 @@ describe("StreamReader", () => {
       expect(dataView).toBeInstanceOf(DataView);
       expect(dataView.getUint16(0, false)).toBe(0x1234);
     });
+
+    test("should respect the byte offset of a view", async () => {
+      const data = new Uint8Array([0xff, 0x12, 0x34]);
+      const reader = StreamReader.from(data);
+
+      await reader.skip(1);
+      const dataView = reader.createDataView(await reader.read(2));
+
+      expect(dataView.byteLength).toBe(2);
+      expect(dataView.getUint16(0, false)).toBe(0x1234);
+    });
   });
 
   describe("error handling", () => {
@@ -337,6 +1798,67 @@ describe("StreamReader", () => {
       );
     });
 
+    test("should throw UnexpectedEofError with position context", async () => {
+      const reader = StreamReader.from(new Uint8Array([1, 2, 3, 4, 5]));
+      await reader.read(2);
+
+      const error = await reader.readUint32().catch((e) => e);
+      expect(error).toBeInstanceOf(UnexpectedEofError);
+      expect(error).toBeInstanceOf(ConduitError);
+      expect(error.name).toBe("UnexpectedEofError");
+      expect(error.offset).toBe(2);
+      expect(error.requested).toBe(4);
+      expect(error.available).toBe(3);
+      expect(error.message).toBe(
+        "Unexpected end of stream at offset 2 (requested 4 bytes, 3 available)",
+      );
+    });
+
+    test("should report the bytes skipped before end of stream", async () => {
+      const reader = new StreamReader(createChunkedStream([[1, 2], [3]]));
+      await reader.readUint8();
+
+      const error = await reader.skip(10).catch((e) => e);
+      expect(error).toBeInstanceOf(UnexpectedEofError);
+      expect(error.offset).toBe(1);
+      expect(error.requested).toBe(10);
+      expect(error.available).toBe(2);
+    });
+
+    test("should throw RangeOverflowError when a delimiter exceeds maxLength", async () => {
+      const reader = StreamReader.from(new Uint8Array([1, 2, 3, 4, 5, 0]));
+      await reader.readUint8();
+
+      const error = await reader.readUntil(0, { maxLength: 2 }).catch((e) => e);
+      expect(error).toBeInstanceOf(RangeOverflowError);
+      expect(error.offset).toBe(1);
+    });
+
+    test("should report the offset where a varint starts", async () => {
+      const reader = StreamReader.from(new Uint8Array([0x01, 0x81, 0x00]));
+      await reader.readUint8();
+
+      const error = await reader.readVarUint().catch((e) => e);
+      expect(error).toBeInstanceOf(VarIntError);
+      expect(error).toBeInstanceOf(ConduitError);
+      expect(error.offset).toBe(1);
+    });
+
+    test("should throw StreamClosedError after close", async () => {
+      const reader = StreamReader.from(new Uint8Array([1, 2, 3]));
+      await reader.readUint8();
+      await reader.close();
+
+      const error = await reader.readUint8().catch((e) => e);
+      expect(error).toBeInstanceOf(StreamClosedError);
+      expect(error.offset).toBe(1);
+      expect(async () => await reader.skip(1)).toThrow(StreamClosedError);
+      expect(async () => await reader.readLine()).toThrow(StreamClosedError);
+      expect(async () => await reader.readUntilEof()).toThrow(
+        StreamClosedError,
+      );
+    });
+
     test("should handle empty stream gracefully for readUntilEof", async () => {
       const reader = StreamReader.from(new Uint8Array([]));
 
@@ -371,6 +1893,115 @@ describe("StreamReader", () => {
       await reader.readUint8();
       expect(reader.bytesRead).toBe(8);
     });
+
+    test("should cancel the source stream", async () => {
+      let cancelReason: unknown;
+      const stream = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          controller.enqueue(new Uint8Array(4));
+        },
+        cancel(reason) {
+          cancelReason = reason;
+        },
+      });
+      const reader = new StreamReader(stream);
+
+      await reader.readUint8();
+      await reader.cancel("done");
+
+      expect(cancelReason).toBe("done");
+      expect(stream.locked).toBe(false);
+      expect(async () => await reader.readUint8()).toThrow(StreamClosedError);
+      await expect(reader.cancel()).resolves.toBeUndefined();
+    });
+
+    test("should reject a pending read when cancelled", async () => {
+      const reader = new StreamReader(new ReadableStream<Uint8Array>());
+
+      const pending = reader.readUint32();
+      await reader.cancel();
+
+      const error = await pending.catch((e) => e);
+      expect(error).toBeInstanceOf(StreamClosedError);
+      expect(error.offset).toBe(0);
+    });
+
+    test("should reject a pending read when closed", async () => {
+      const stream = new ReadableStream<Uint8Array>();
+      const reader = new StreamReader(stream);
+
+      const pending = reader.readUint32();
+      await reader.close();
+
+      const error = await pending.catch((e) => e);
+      expect(error).toBeInstanceOf(StreamClosedError);
+      expect(error.cause).toBeInstanceOf(TypeError);
+      expect(stream.locked).toBe(false);
+    });
+
+    test("should reject every operation after close", async () => {
+      const reader = StreamReader.from(new Uint8Array([1, 2, 3, 4]));
+      await reader.peek(4);
+      await reader.close();
+
+      expect(async () => await reader.read(1)).toThrow(StreamClosedError);
+      expect(async () => await reader.peek(1)).toThrow(StreamClosedError);
+      expect(async () => await reader.skip(1)).toThrow(StreamClosedError);
+      expect(async () => await reader.readLine()).toThrow(StreamClosedError);
+      expect(async () => await reader.readUntilEof()).toThrow(
+        StreamClosedError,
+      );
+      expect(async () => await reader.chunks().next()).toThrow(
+        StreamClosedError,
+      );
+    });
+
+    test("should cancel the stream when disposed", async () => {
+      let cancelled = false;
+      const stream = new ReadableStream<Uint8Array>({
+        cancel() {
+          cancelled = true;
+        },
+      });
+
+      {
+        await using reader = new StreamReader(stream);
+        expect(reader.bytesRead).toBe(0);
+      }
+
+      expect(cancelled).toBe(true);
+    });
+
+    test("should leave the parent open when a view is disposed", async () => {
+      const reader = StreamReader.from(new Uint8Array([1, 2, 3, 4, 5, 6]));
+
+      {
+        await using section = reader.limit(3);
+        expect(await section.readUint8()).toBe(1);
+      }
+      expect(reader.bytesRead).toBe(3);
+
+      {
+        await using little = reader.withEndian(Endian.Little);
+        expect(await little.readUint16()).toBe(0x0504);
+      }
+      expect(await reader.readUint8()).toBe(6);
+    });
+
+    test("should cancel the source through a view", async () => {
+      let cancelled = false;
+      const stream = new ReadableStream<Uint8Array>({
+        cancel() {
+          cancelled = true;
+        },
+      });
+      const reader = new StreamReader(stream);
+
+      await reader.withEndian(Endian.Little).cancel();
+
+      expect(cancelled).toBe(true);
+      expect(async () => await reader.readUint8()).toThrow(StreamClosedError);
+    });
   });
 
   describe("mixed operations", () => {
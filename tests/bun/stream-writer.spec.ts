@@ -1,5 +1,17 @@
 import { describe, test, expect } from "bun:test";
-import { StreamWriter, Endian } from "../../index";
+import {
+  StreamReader,
+  StreamWriter,
+  Endian,
+  ConduitError,
+  RangeOverflowError,
+  StreamClosedError,
+  AbortError,
+  StringEncodingError,
+  HashingWriter,
+  Crc32Checksum,
+} from "../../index";
+import { createCollector } from "./helpers";
 
 describe("StreamWriter", () => {
   describe("construction", () => {
@@ -131,6 +143,71 @@ describe("StreamWriter", () => {
     });
   });
 
+  describe("string encodings", () => {
+    test("should write UTF-16 strings", async () => {
+      const chunks: Uint8Array[] = [];
+      const stream = new WritableStream({
+        write(chunk) {
+          chunks.push(new Uint8Array(chunk));
+        },
+      });
+
+      const writer = new StreamWriter(stream);
+
+      expect(await writer.writeString("Hi", { encoding: "utf-16le" })).toBe(4);
+      expect(await writer.writeString("Hi", { encoding: "utf-16be" })).toBe(4);
+      await writer.writeString("🌍", { encoding: "utf-16be" });
+
+      expect(chunks[0]).toEqual(new Uint8Array([0x48, 0x00, 0x69, 0x00]));
+      expect(chunks[1]).toEqual(new Uint8Array([0x00, 0x48, 0x00, 0x69]));
+      expect(chunks[2]).toEqual(new Uint8Array([0xd8, 0x3c, 0xdf, 0x0d]));
+    });
+
+    test("should write single-byte encodings", async () => {
+      const chunks: Uint8Array[] = [];
+      const stream = new WritableStream({
+        write(chunk) {
+          chunks.push(new Uint8Array(chunk));
+        },
+      });
+
+      const writer = new StreamWriter(stream);
+
+      await writer.writeString("é\x80", { encoding: "latin1" });
+      await writer.writeString("é€", { encoding: "windows-1252" });
+
+      expect(chunks[0]).toEqual(new Uint8Array([0xe9, 0x80]));
+      expect(chunks[1]).toEqual(new Uint8Array([0xe9, 0x80]));
+    });
+
+    test("should replace unencodable characters by default", async () => {
+      const chunks: Uint8Array[] = [];
+      const stream = new WritableStream({
+        write(chunk) {
+          chunks.push(new Uint8Array(chunk));
+        },
+      });
+
+      const writer = new StreamWriter(stream);
+
+      await writer.writeString("a€🌍", { encoding: "latin1" });
+
+      expect(chunks[0]).toEqual(new Uint8Array([0x61, 0x3f, 0x3f]));
+    });
+
+    test("should throw on unencodable characters in fatal mode", async () => {
+      const writer = new StreamWriter(new WritableStream());
+
+      expect(
+        async () =>
+          await writer.writeString("€", { encoding: "latin1", fatal: true }),
+      ).toThrow("U+20AC cannot be encoded as latin1");
+      expect(
+        async () => await writer.writeString("\ud800", { fatal: true }),
+      ).toThrow(StringEncodingError);
+    });
+  });
+
   describe("8-bit integer writing", () => {
     test("should write uint8 values", async () => {
       const chunks: Uint8Array[] = [];
@@ -458,6 +535,217 @@ describe("StreamWriter", () => {
     });
   });
 
+  describe("arbitrary-width integer writing", () => {
+    test("should write integers of any byte length", async () => {
+      const chunks: Uint8Array[] = [];
+      const stream = new WritableStream({
+        write(chunk) {
+          chunks.push(new Uint8Array(chunk));
+        },
+      });
+
+      const writer = new StreamWriter(stream);
+
+      await writer.writeUintN(0x123456, 3);
+      await writer.writeIntN(-2, 3, Endian.Little);
+      await writer.writeUintN(0x0123456789ab, 6);
+      await writer.writeUintN(0x01020304050607n, 7, Endian.Little);
+      await writer.writeIntN(-1n, 16);
+
+      expect(chunks).toEqual([
+        new Uint8Array([0x12, 0x34, 0x56]),
+        new Uint8Array([0xfe, 0xff, 0xff]),
+        new Uint8Array([0x01, 0x23, 0x45, 0x67, 0x89, 0xab]),
+        new Uint8Array([0x07, 0x06, 0x05, 0x04, 0x03, 0x02, 0x01]),
+        new Uint8Array(16).fill(0xff),
+      ]);
+      expect(writer.bytesWritten).toBe(35);
+    });
+
+    test("should reject values that do not fit", async () => {
+      const writer = new StreamWriter(new WritableStream());
+
+      expect(async () => await writer.writeUintN(0x1000000, 3)).toThrow(
+        RangeOverflowError,
+      );
+      expect(async () => await writer.writeUintN(-1, 3)).toThrow(
+        RangeOverflowError,
+      );
+      expect(async () => await writer.writeIntN(0x800000, 3)).toThrow(
+        RangeOverflowError,
+      );
+      expect(async () => await writer.writeIntN(1.5, 3)).toThrow(
+        RangeOverflowError,
+      );
+      expect(async () => await writer.writeUintN(1, 0)).toThrow(RangeError);
+      expect(writer.bytesWritten).toBe(0);
+    });
+  });
+
+  describe("typed array writing", () => {
+    test("should write integer arrays in either byte order", async () => {
+      const { stream, bytes } = createCollector();
+      const writer = new StreamWriter(stream);
+
+      expect(
+        await writer.writeUint16Array(Uint16Array.of(0x1234, 0x5678)),
+      ).toBe(4);
+      await writer.writeInt16Array([-2], Endian.Little);
+      await writer.writeInt8Array([-1, 1]);
+
+      expect(bytes()).toEqual(
+        new Uint8Array([0x12, 0x34, 0x56, 0x78, 0xfe, 0xff, 0xff, 0x01]),
+      );
+      expect(writer.bytesWritten).toBe(8);
+    });
+
+    test("should write 32-bit and 64-bit arrays", async () => {
+      const { stream, bytes } = createCollector();
+      const writer = new StreamWriter(stream);
+
+      await writer.writeUint32Array([1]);
+      await writer.writeInt32Array([-2]);
+      await writer.writeFloat32Array([1]);
+      await writer.writeFloat64Array(Float64Array.of(1));
+      await writer.writeBigUint64Array([1n]);
+      await writer.writeBigInt64Array([-1n], Endian.Little);
+
+      expect(bytes()).toEqual(
+        new Uint8Array([
+          0x00, 0x00, 0x00, 0x01, 0xff, 0xff, 0xff, 0xfe, 0x3f, 0x80, 0x00,
+          0x00, 0x3f, 0xf0, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00,
+          0x00, 0x00, 0x00, 0x00, 0x00, 0x01, 0xff, 0xff, 0xff, 0xff, 0xff,
+          0xff, 0xff, 0xff,
+        ]),
+      );
+    });
+
+    test("should write only the viewed part of a typed array", async () => {
+      const { stream, bytes } = createCollector();
+      const writer = new StreamWriter(stream, { endian: Endian.Little });
+      const values = Uint16Array.of(1, 2, 3, 4).subarray(1, 3);
+
+      await writer.writeUint16Array(values);
+
+      expect(bytes()).toEqual(new Uint8Array([0x02, 0x00, 0x03, 0x00]));
+      expect(values).toEqual(Uint16Array.of(2, 3));
+    });
+
+    test("should round-trip through StreamReader", async () => {
+      const { stream, bytes } = createCollector();
+      const writer = new StreamWriter(stream);
+      const values = Float32Array.of(0.5, -1.25, 1e10);
+
+      await writer.writeFloat32Array(values, Endian.Little);
+      const reader = StreamReader.from(bytes());
+
+      expect(await reader.readFloat32Array(3, Endian.Little)).toEqual(values);
+    });
+  });
+
+  describe("varint writing", () => {
+    test("should write unsigned LEB128", async () => {
+      const chunks: Uint8Array[] = [];
+      const stream = new WritableStream({
+        write(chunk) {
+          chunks.push(new Uint8Array(chunk));
+        },
+      });
+
+      const writer = new StreamWriter(stream);
+
+      expect(await writer.writeVarUint(0)).toBe(1);
+      expect(await writer.writeVarUint(300)).toBe(2);
+      expect(await writer.writeVarUint(624485)).toBe(3);
+      expect(await writer.writeVarUint(BigInt("0xFFFFFFFFFFFFFFFF"))).toBe(10);
+
+      expect(chunks[0]).toEqual(new Uint8Array([0x00]));
+      expect(chunks[1]).toEqual(new Uint8Array([0xac, 0x02]));
+      expect(chunks[2]).toEqual(new Uint8Array([0xe5, 0x8e, 0x26]));
+      expect(chunks[3]).toEqual(
+        new Uint8Array([
+          0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0x01,
+        ]),
+      );
+    });
+
+    test("should write signed LEB128", async () => {
+      const chunks: Uint8Array[] = [];
+      const stream = new WritableStream({
+        write(chunk) {
+          chunks.push(new Uint8Array(chunk));
+        },
+      });
+
+      const writer = new StreamWriter(stream);
+
+      await writer.writeVarInt(2);
+      await writer.writeVarInt(-2);
+      await writer.writeVarInt(63);
+      await writer.writeVarInt(64);
+      await writer.writeVarInt(-123456);
+      await writer.writeVarInt(-BigInt("0x8000000000000000"));
+
+      expect(chunks[0]).toEqual(new Uint8Array([0x02]));
+      expect(chunks[1]).toEqual(new Uint8Array([0x7e]));
+      expect(chunks[2]).toEqual(new Uint8Array([0x3f]));
+      expect(chunks[3]).toEqual(new Uint8Array([0xc0, 0x00]));
+      expect(chunks[4]).toEqual(new Uint8Array([0xc0, 0xbb, 0x78]));
+      expect(chunks[5]).toEqual(
+        new Uint8Array([
+          0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x7f,
+        ]),
+      );
+    });
+
+    test("should write zigzag varints", async () => {
+      const chunks: Uint8Array[] = [];
+      const stream = new WritableStream({
+        write(chunk) {
+          chunks.push(new Uint8Array(chunk));
+        },
+      });
+
+      const writer = new StreamWriter(stream);
+
+      await writer.writeZigZag(0);
+      await writer.writeZigZag(-1);
+      await writer.writeZigZag(1);
+      await writer.writeZigZag(-64);
+      await writer.writeZigZag(-BigInt("0x8000000000000000"));
+
+      expect(chunks[0]).toEqual(new Uint8Array([0x00]));
+      expect(chunks[1]).toEqual(new Uint8Array([0x01]));
+      expect(chunks[2]).toEqual(new Uint8Array([0x02]));
+      expect(chunks[3]).toEqual(new Uint8Array([0x7f]));
+      expect(chunks[4]).toEqual(
+        new Uint8Array([
+          0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0x01,
+        ]),
+      );
+    });
+
+    test("should reject values out of range", async () => {
+      const writer = new StreamWriter(new WritableStream());
+
+      expect(async () => await writer.writeVarUint(-1)).toThrow(
+        RangeOverflowError,
+      );
+      expect(async () => await writer.writeVarUint(1.5)).toThrow(
+        RangeOverflowError,
+      );
+      expect(async () => await writer.writeVarUint(1n << 64n)).toThrow(
+        RangeOverflowError,
+      );
+      expect(async () => await writer.writeVarInt(1n << 63n)).toThrow(
+        RangeOverflowError,
+      );
+      expect(async () => await writer.writeZigZag(-(1n << 63n) - 1n)).toThrow(
+        RangeOverflowError,
+      );
+    });
+  });
+
   describe("resource management", () => {
     test("should close writer without error", async () => {
       const stream = new WritableStream();
@@ -465,6 +753,272 @@ describe("StreamWriter", () => {
 
       expect(writer.close()).resolves.toBe(undefined);
     });
+
+    test("should abort the underlying stream", async () => {
+      let abortReason: unknown;
+      const writer = new StreamWriter(
+        new WritableStream({
+          abort(reason) {
+            abortReason = reason;
+          },
+        }),
+      );
+
+      await writer.writeUint8(1);
+      await writer.abort("cancelled upload");
+
+      expect(abortReason).toBe("cancelled upload");
+      expect(async () => await writer.writeUint8(2)).toThrow(StreamClosedError);
+      expect(async () => await writer.close()).toThrow(StreamClosedError);
+      await expect(writer.abort()).resolves.toBeUndefined();
+    });
+
+    test("should reject a queued write when aborted", async () => {
+      let release!: () => void;
+      const writer = new StreamWriter(
+        new WritableStream({
+          write() {
+            return new Promise<void>((resolve) => (release = resolve));
+          },
+        }),
+      );
+
+      const first = writer.writeUint8(1);
+      const second = writer.writeUint8(2);
+      await Promise.resolve();
+      const aborted = writer.abort(new Error("stop"));
+      release();
+
+      await first;
+      const error = await second.catch((e) => e);
+      expect(error).toBeInstanceOf(StreamClosedError);
+      expect(error.cause).toEqual(new Error("stop"));
+      await aborted;
+    });
+
+    test("should close the stream when disposed", async () => {
+      let closed = false;
+      const stream = new WritableStream({
+        close() {
+          closed = true;
+        },
+      });
+
+      {
+        await using writer = new StreamWriter(stream);
+        await writer.writeUint8(1);
+      }
+
+      expect(closed).toBe(true);
+    });
+
+    test("should leave the parent open when a view is disposed", async () => {
+      const { stream, bytes } = createCollector();
+      const writer = new StreamWriter(stream);
+
+      {
+        await using little = writer.withEndian(Endian.Little);
+        await little.writeUint16(0x0201);
+      }
+
+      const checksum = new Crc32Checksum();
+      {
+        await using hashing = new HashingWriter(writer, checksum);
+        await hashing.writeUint8(3);
+      }
+      const digest = checksum.digest();
+
+      await writer.writeUint8(4);
+      expect(checksum.digest()).toBe(digest);
+
+      await writer.close();
+      expect(bytes()).toEqual(new Uint8Array([1, 2, 3, 4]));
+    });
+
+    test("should close the stream through a view", async () => {
+      let closed = false;
+      const writer = new StreamWriter(
+        new WritableStream({
+          close() {
+            closed = true;
+          },
+        }),
+      );
+
+      await writer.withEndian(Endian.Little).close();
+
+      expect(closed).toBe(true);
+      expect(async () => await writer.writeUint8(1)).toThrow(StreamClosedError);
+    });
+  });
+
+  describe("error handling", () => {
+    test("should track bytes written", async () => {
+      const writer = new StreamWriter(new WritableStream());
+
+      await writer.writeUint8(1);
+      await writer.writeUint32(2);
+      await writer.writeVarUint(300);
+
+      expect(writer.bytesWritten).toBe(7);
+    });
+
+    test("should report the offset of values out of range", async () => {
+      const writer = new StreamWriter(new WritableStream());
+      await writer.writeUint16(1);
+
+      const error = await writer.writeVarUint(-1).catch((e) => e);
+      expect(error).toBeInstanceOf(RangeOverflowError);
+      expect(error).toBeInstanceOf(ConduitError);
+      expect(error.offset).toBe(2);
+    });
+
+    test("should throw StreamClosedError after close", async () => {
+      const writer = new StreamWriter(new WritableStream());
+      await writer.writeUint8(1);
+      await writer.close();
+
+      const error = await writer.writeUint8(2).catch((e) => e);
+      expect(error).toBeInstanceOf(StreamClosedError);
+      expect(error.offset).toBe(1);
+      expect(async () => await writer.close()).toThrow(StreamClosedError);
+    });
+  });
+
+  describe("aborting", () => {
+    function createStalledStream() {
+      return new WritableStream({
+        write() {
+          return new Promise(() => {});
+        },
+      });
+    }
+
+    test("should reject a stalled write and fail the writer", async () => {
+      const writer = new StreamWriter(createStalledStream());
+      const controller = new AbortController();
+
+      const pending = writer.writeUint32(1, Endian.Big, {
+        signal: controller.signal,
+      });
+      controller.abort("stop");
+
+      const error = await pending.catch((e) => e);
+      expect(error).toBeInstanceOf(AbortError);
+      expect(error.cause).toBe("stop");
+      expect(error.offset).toBe(0);
+      expect(error.requested).toBe(4);
+      expect(writer.bytesWritten).toBe(0);
+
+      expect(async () => await writer.writeUint8(1)).toThrow(StreamClosedError);
+    });
+
+    test("should not write when already aborted", async () => {
+      const chunks: Uint8Array[] = [];
+      const writer = new StreamWriter(
+        new WritableStream({
+          write(chunk) {
+            chunks.push(chunk);
+          },
+        }),
+      );
+
+      const signal = AbortSignal.abort();
+      expect(async () => await writer.writeUint8(1, { signal })).toThrow(
+        AbortError,
+      );
+
+      await writer.writeUint8(2);
+      expect(chunks).toEqual([new Uint8Array([2])]);
+    });
+
+    test("should apply the constructor signal", async () => {
+      const writer = new StreamWriter(createStalledStream(), {
+        signal: AbortSignal.timeout(10),
+      });
+
+      const error = await writer.writeVarUint(300).catch((e) => e);
+      expect(error).toBeInstanceOf(AbortError);
+      expect(error.cause.name).toBe("TimeoutError");
+    });
+  });
+
+  describe("default endianness", () => {
+    test("should use the constructor endianness for every typed write", async () => {
+      const { stream, bytes } = createCollector();
+      const writer = new StreamWriter(stream, { endian: Endian.Little });
+
+      await writer.writeUint16(0x1234);
+      await writer.writeInt32(0x12345678);
+      await writer.writeFloat16(1);
+      await writer.writeUint16(0x1234, Endian.Big);
+
+      expect(writer.endian).toBe(Endian.Little);
+      expect(bytes()).toEqual(
+        new Uint8Array([
+          0x34, 0x12, 0x78, 0x56, 0x34, 0x12, 0x00, 0x3c, 0x12, 0x34,
+        ]),
+      );
+    });
+
+    test("should resolve Endian.Native to the host byte order", async () => {
+      const { stream, bytes } = createCollector();
+      const writer = new StreamWriter(stream, { endian: Endian.Native });
+
+      await writer.writeUint16(1);
+
+      expect(bytes()).toEqual(new Uint8Array(Uint16Array.of(1).buffer));
+    });
+
+    test("should share the position with withEndian views", async () => {
+      const { stream, bytes } = createCollector();
+      const writer = new StreamWriter(stream);
+      const little = writer.withEndian(Endian.Little);
+
+      await writer.writeUint16(0x1234);
+      await little.writeUint16(0x1234);
+
+      expect(bytes()).toEqual(new Uint8Array([0x12, 0x34, 0x34, 0x12]));
+      expect(writer.bytesWritten).toBe(4);
+      expect(little.bytesWritten).toBe(4);
+
+      await little.close();
+      expect(async () => await writer.writeUint8(0)).toThrow(StreamClosedError);
+    });
+  });
+
+  describe("progress hooks", () => {
+    test("should report each accepted write", async () => {
+      const events: unknown[] = [];
+      const writer = new StreamWriter(new WritableStream(), {
+        onWrite: (progress) => events.push(progress),
+      });
+
+      await writer.writeUint32(1);
+      await writer.withEndian(Endian.Little).writeUint16(2);
+      await writer.writeString("abc");
+
+      expect(events).toEqual([
+        { bytes: 4, bytesWritten: 4 },
+        { bytes: 2, bytesWritten: 6 },
+        { bytes: 3, bytesWritten: 9 },
+      ]);
+    });
+
+    test("should not report writes the stream rejects", async () => {
+      const events: unknown[] = [];
+      const writer = new StreamWriter(
+        new WritableStream({
+          write() {
+            throw new Error("disk full");
+          },
+        }),
+        { onWrite: (progress) => events.push(progress) },
+      );
+
+      expect(async () => await writer.writeUint8(1)).toThrow("disk full");
+      expect(events).toEqual([]);
+    });
   });
 
   describe("buffer reuse", () => {
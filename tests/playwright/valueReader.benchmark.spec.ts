@@ -27,17 +27,17 @@ test("ValueReader performance comparison", async () => {
     const t0 = performance.now();
     for (let i = 0; i < ITER8; i++) {
       buf[0] = nums[i];
-      sum1 += bitReader.readInt8(buf);
+      sum1 += bitReader.readInt8(buf, 0);
     }
     const t1 = performance.now();
     for (let i = 0; i < ITER8; i++) {
       buf[0] = nums[i];
-      sum2 += dvReader.readInt8(buf);
+      sum2 += dvReader.readInt8(buf, 0);
     }
     const t2 = performance.now();
     for (let i = 0; i < ITER8; i++) {
       buf[0] = nums[i];
-      sum3 += perfReader.readInt8(buf);
+      sum3 += perfReader.readInt8(buf, 0);
     }
     const t3 = performance.now();
 
@@ -64,21 +64,21 @@ test("ValueReader performance comparison", async () => {
       const v = nums[i];
       buf[0] = (v >>> 8) & 0xff;
       buf[1] = v & 0xff;
-      sum1 += bitReader.readInt16(buf, Endian.Big);
+      sum1 += bitReader.readInt16(buf, 0, Endian.Big);
     }
     const t1 = performance.now();
     for (let i = 0; i < ITER16; i++) {
       const v = nums[i];
       buf[0] = (v >>> 8) & 0xff;
       buf[1] = v & 0xff;
-      sum2 += dvReader.readInt16(buf, Endian.Big);
+      sum2 += dvReader.readInt16(buf, 0, Endian.Big);
     }
     const t2 = performance.now();
     for (let i = 0; i < ITER16; i++) {
       const v = nums[i];
       buf[0] = (v >>> 8) & 0xff;
       buf[1] = v & 0xff;
-      sum3 += perfReader.readInt16(buf, Endian.Big);
+      sum3 += perfReader.readInt16(buf, 0, Endian.Big);
     }
     const t3 = performance.now();
 
@@ -107,7 +107,7 @@ test("ValueReader performance comparison", async () => {
       buf[1] = (v >>> 16) & 0xff;
       buf[2] = (v >>> 8) & 0xff;
       buf[3] = v & 0xff;
-      sum1 += bitReader.readInt32(buf, Endian.Big);
+      sum1 += bitReader.readInt32(buf, 0, Endian.Big);
     }
     const t1 = performance.now();
     for (let i = 0; i < ITER32; i++) {
@@ -116,7 +116,7 @@ test("ValueReader performance comparison", async () => {
       buf[1] = (v >>> 16) & 0xff;
       buf[2] = (v >>> 8) & 0xff;
       buf[3] = v & 0xff;
-      sum2 += dvReader.readInt32(buf, Endian.Big);
+      sum2 += dvReader.readInt32(buf, 0, Endian.Big);
     }
     const t2 = performance.now();
     for (let i = 0; i < ITER32; i++) {
@@ -125,7 +125,7 @@ test("ValueReader performance comparison", async () => {
       buf[1] = (v >>> 16) & 0xff;
       buf[2] = (v >>> 8) & 0xff;
       buf[3] = v & 0xff;
-      sum3 += perfReader.readInt32(buf, Endian.Big);
+      sum3 += perfReader.readInt32(buf, 0, Endian.Big);
     }
     const t3 = performance.now();
 
@@ -162,29 +162,29 @@ test("ValueReader performance comparison", async () => {
     // Unsigned 64
     let t0 = performance.now();
     for (let i = 0; i < ITER64; i++) {
-      sumU1 += bitReader.readUint64(buffers[i], Endian.Big);
+      sumU1 += bitReader.readUint64(buffers[i], 0, Endian.Big);
     }
     let t1 = performance.now();
     for (let i = 0; i < ITER64; i++) {
-      sumU2 += dvReader.readUint64(buffers[i], Endian.Big);
+      sumU2 += dvReader.readUint64(buffers[i], 0, Endian.Big);
     }
     let t2 = performance.now();
     for (let i = 0; i < ITER64; i++) {
-      sumU3 += perfReader.readUint64(buffers[i], Endian.Big);
+      sumU3 += perfReader.readUint64(buffers[i], 0, Endian.Big);
     }
     let t3 = performance.now();
 
     // Signed 64
     for (let i = 0; i < ITER64; i++) {
-      sumI1 += bitReader.readInt64(buffers[i], Endian.Big);
+      sumI1 += bitReader.readInt64(buffers[i], 0, Endian.Big);
     }
     let t4 = performance.now();
     for (let i = 0; i < ITER64; i++) {
-      sumI2 += dvReader.readInt64(buffers[i], Endian.Big);
+      sumI2 += dvReader.readInt64(buffers[i], 0, Endian.Big);
     }
     let t5 = performance.now();
     for (let i = 0; i < ITER64; i++) {
-      sumI3 += perfReader.readInt64(buffers[i], Endian.Big);
+      sumI3 += perfReader.readInt64(buffers[i], 0, Endian.Big);
     }
     let t6 = performance.now();
 
@@ -204,4 +204,30 @@ test("ValueReader performance comparison", async () => {
     expect(sumI1).toBe(sumI2);
     expect(sumI1).toBe(sumI3);
   }
+
+  // --- Uint32 BE from one packed buffer: slice per value vs offset ---
+  {
+    const packed = new Uint8Array(ITER32 * 4);
+    const view = new DataView(packed.buffer);
+    for (let i = 0; i < ITER32; i++) view.setUint32(i * 4, i);
+    let sum1 = 0,
+      sum2 = 0;
+
+    const t0 = performance.now();
+    for (let i = 0; i < ITER32; i++) {
+      const buf = packed.slice(i * 4, i * 4 + 4);
+      sum1 += perfReader.readUint32(buf, 0, Endian.Big);
+    }
+    const t1 = performance.now();
+    for (let i = 0; i < ITER32; i++) {
+      sum2 += perfReader.readUint32(packed, i * 4, Endian.Big);
+    }
+    const t2 = performance.now();
+
+    console.log(
+      `Uint32 BE packed  slice: ${(t1 - t0).toFixed(2)} ms  |  ` +
+        `offset: ${(t2 - t1).toFixed(2)} ms`,
+    );
+    expect(sum1).toBe(sum2);
+  }
 });